@@ -6,8 +6,63 @@
 const PROCESSING_CONSTANTS = {
   DEFAULT_FONT_SIZE: 16,
   DEFAULT_CONTAINER_WIDTH: 400,
+  // リストの階層1段あたりのインデント（フォントサイズに対する倍率）
+  // Figma のプラグインAPIはリストのインデント幅を公開していないため、表示上の幅から見積もった概算値
+  LIST_INDENT_EM: 1.5,
+  DEFAULT_FONT_NAME: { family: 'Inter', style: 'Regular' },
   CHUNK_SIZE: 20,
 
+  PLUGIN_DATA_KEYS: {
+    ORIGINAL_STATE: 'line-break-cleaner-original',
+    IGNORE: 'line-break-cleaner-ignore'
+  },
+
+  // manifest の menu / relaunchButtons のコマンド
+  COMMANDS: {
+    OPEN: 'open',
+    SCAN_REPORT: 'scan-report',
+    CLEAN_SELECTION: 'clean-selection',
+    CONVERT_SOFT_BREAKS: 'convert-soft-breaks',
+    RESTORE_ORIGINALS: 'restore-originals',
+    RECLEAN: 'reclean',
+    QUICK_CLEAN: 'quick-clean',
+    CALIBRATE: 'calibrate'
+  },
+
+  FONT_METRICS_FORMAT: 'line-break-cleaner-font-metrics',
+
+  // 幅の補正に使う1行テキストの条件と標本数
+  CALIBRATION: {
+    MIN_CHARACTERS: 4,
+    MIN_SAMPLES: 3,
+    MAX_SAMPLES_PER_FONT: 200,
+    MIN_FACTOR: 0.5,
+    MAX_FACTOR: 1.5
+  },
+
+  // クイックアクションの閾値の候補
+  THRESHOLD_SUGGESTIONS: [0.85, 0.9, 0.95],
+
+  // レイヤー名の末尾にこの文字列があるノードとその子孫はスキャン対象外
+  IGNORE_LAYER_NAME_SUFFIX: '#keep-breaks',
+
+  // clientStorage のキーと、プリセットの書き出し形式のバージョン
+  // version 1: バージョン情報のない単一設定（breakRules なし）
+  // version 2: 名前付きプリセット（breakRules あり）
+  CONFIG_STORAGE_KEYS: {
+    LEGACY_CONFIG: 'line-break-cleaner-config',
+    PRESETS: 'line-break-cleaner-presets'
+  },
+  CONFIG_SCHEMA_VERSION: 2,
+  CONFIG_EXPORT_FORMAT: 'line-break-cleaner-presets',
+  DEFAULT_PRESET_NAME: 'デフォルト',
+
+  // ファイル共有設定（document root の setSharedPluginData に保存）
+  SHARED_CONFIG: {
+    NAMESPACE: 'line_break_cleaner',
+    KEY: 'config'
+  },
+
   NOTIFICATION_TIMEOUTS: {
     COMPLETE: 3000,
     ERROR: 5000
@@ -17,7 +72,42 @@ const PROCESSING_CONSTANTS = {
 // ===== TYPE DEFINITIONS =====
 
 interface DetectedIssue {
-  type: 'auto-width' | 'edge-breaking' | 'soft-break';
+  type: 'auto-width' | 'edge-breaking' | 'soft-break' | 'protected-break';
+  reason?: string;
+  breakPositions?: number[];
+  // 改行（\n）で区切った各行の幅（行ごとの利用可能幅に対する比率）。auto-width で使用
+  lineWidthRatios?: number[];
+  // 改行で区切った各行の利用可能幅（px）。ボックスの幅から段落の字下げ・リストのインデントを引いた幅
+  lineAvailableWidths?: number[];
+  // 折り返しを試算した後の各行の幅比率と利用可能幅。edge-breaking で使用
+  wrappedLineWidthRatios?: number[];
+  wrappedLineAvailableWidths?: number[];
+  // 不要な改行である確からしさ（0〜1）
+  confidence?: number;
+}
+
+// 改行直前の行の計測結果（確信度の算出に使用）
+interface MeasuredBreak {
+  position: number;
+  lineBefore: string;
+  lineAfter: string;
+  widthRatio: number;
+}
+
+type ScriptKind =
+  'latin' | 'cyrillic' | 'greek' | 'hangul' | 'han' | 'kana' | 'thai' | 'rtl' | 'indic' |
+  'digit' | 'latin-punctuation' | 'cjk-punctuation' | 'other';
+
+// 行末のハイフンの扱い（ソフトハイフンの削除／ハイフンを外して結合／複合語としてハイフンを保持）
+type DehyphenationKind = 'soft-hyphen' | 'joined' | 'compound';
+
+type ParagraphKind = 'body' | 'bullet' | 'numbered' | 'lettered' | 'circled-number' | 'heading';
+
+// スキャン対象外の指定元（ノード自身・親フレーム・レイヤー名）
+interface IgnoreMarkerInfo {
+  source: 'node' | 'frame' | 'layer-name';
+  markerNodeId: string;
+  markerName: string;
 }
 
 interface TextAnalysisResult {
@@ -25,6 +115,71 @@ interface TextAnalysisResult {
   issues: DetectedIssue[];
   estimatedChanges: string;
   originalText: string;
+  hasStoredOriginal?: boolean;
+  pageId?: string;
+  pageName?: string;
+  component?: ComponentTextInfo;
+  boundVariable?: { id: string; name: string };
+  ignored?: IgnoreMarkerInfo;
+  proposedText?: string;
+  previewSegments?: PreviewSegment[];
+  breakCandidates?: BreakCandidate[];
+  // フォントがないため実測できず、補正係数・フォントメトリクスによる推定の行幅で判定した
+  missingFont?: boolean;
+}
+
+// 改行ごとのレビュー項目（position は元テキスト内の \n の位置）
+interface BreakCandidate {
+  position: number;
+  lineBefore: string;
+  lineAfter: string;
+  widthRatio: number;
+  availableWidth: number;
+  remove: boolean;
+  protectedReason?: string;
+  matchedRule?: string;
+  separator?: string;
+}
+
+interface TextMeasureStyle {
+  fontName: FontName;
+  fontSize: number;
+  letterSpacing: LetterSpacing;
+}
+
+// 段落の先頭行の字下げ（paragraphIndent）と、リスト項目の全行にかかるインデント（px）
+interface TextIndent {
+  firstLine: number;
+  list: number;
+}
+
+// getStyledTextSegments で得た同一スタイルの文字範囲（end は含まない）
+interface StyledTextRun {
+  start: number;
+  end: number;
+  style: TextMeasureStyle;
+  indent?: TextIndent;
+}
+
+// 元テキスト内の開始位置付きの行
+interface TextLineRange {
+  text: string;
+  start: number;
+}
+
+// 折り返しの試算で得た行と、その行の利用可能幅
+interface WrappedLine extends TextLineRange {
+  availableWidth: number;
+}
+
+// 行末・次の行頭の正規表現に一致した改行に対するユーザー定義ルール（上から順に評価）
+interface BreakRule {
+  name: string;
+  lineEndPattern?: string;
+  nextLineStartPattern?: string;
+  action: 'keep' | 'remove' | 'join';
+  separator?: string;
+  enabled?: boolean;
 }
 
 interface ProcessingConfig {
@@ -32,6 +187,63 @@ interface ProcessingConfig {
   lineBreakThreshold: number;
   softBreakChars: string[];
   fontWidthMultiplier?: number;
+  breakRules?: BreakRule[];
+  fontCalibrations?: FontCalibration[];
+  fontMetricProfiles?: FontMetricProfile[];
+  dehyphenate?: boolean;
+}
+
+// 文字幅の推定に使う文字の分類
+type CharacterClass = 'full-width' | 'digit' | 'upper' | 'lower' | 'space' | 'punctuation' | 'other';
+
+// フォントごとの文字幅（em 単位）。文字ごとの送り幅が優先され、なければ分類ごとの幅を使う
+// style を省略したプロファイルはファミリーの全スタイルに適用される
+interface FontMetricProfile {
+  family: string;
+  style?: string;
+  characters?: { [char: string]: number };
+  classes?: Partial<Record<CharacterClass, number>>;
+}
+
+// ファイル内の1行テキストの実際の幅から求めた、フォントごとの幅の補正係数
+interface FontCalibration {
+  family: string;
+  style: string;
+  factor: number;
+  sampleCount: number;
+}
+
+interface ConfigPreset {
+  name: string;
+  config: ProcessingConfig;
+}
+
+interface PresetCollection {
+  version: number;
+  activePreset: string;
+  presets: ConfigPreset[];
+}
+
+interface ConfigValidationResult {
+  config: ProcessingConfig | null;
+  errors: string[];
+}
+
+// ファイル共有設定。個人のプリセットより優先し、ロック中はロックしたユーザー以外は変更できない
+interface SharedConfigState {
+  version: number;
+  config: ProcessingConfig;
+  locked: boolean;
+  lockedBy?: { id: string; name: string };
+  updatedBy?: string;
+  updatedAt: number;
+}
+
+type ConfigSource = 'file' | 'personal';
+
+interface PresetImportResult {
+  imported: string[];
+  errors: string[];
 }
 
 interface ProcessingChanges {
@@ -39,6 +251,111 @@ interface ProcessingChanges {
   newAutoResize?: 'NONE' | 'HEIGHT' | 'WIDTH_AND_HEIGHT' | 'TRUNCATE';
 }
 
+// 元テキスト上の位置 start から deleteCount 文字を削除し、insertText を挿入する編集
+interface TextEditSpan {
+  start: number;
+  deleteCount: number;
+  insertText: string;
+}
+
+// 差分プレビューの表示単位（before が元テキスト、after がクリーニング後）
+// 行末ハイフンの解消では detail に結合後の語を入れる
+interface PreviewSegment {
+  kind: 'equal' | 'removed-break' | 'joined-space' | 'converted-soft-break' |
+    'removed-soft-hyphen' | 'dehyphenated' | 'kept-hyphen' | 'changed';
+  before: string;
+  after: string;
+  detail?: string;
+}
+
+// クリーニング前の状態（setPluginData に JSON として保存）
+interface StoredOriginalState {
+  characters: string;
+  textAutoResize: 'NONE' | 'HEIGHT' | 'WIDTH_AND_HEIGHT' | 'TRUNCATE';
+  width: number;
+  savedAt: number;
+}
+
+type RestoreScope = 'nodes' | 'selection' | 'page';
+
+type ScanScope = 'auto' | 'document';
+
+// クイックアクション（パラメータ）で指定する処理内容と対象範囲
+type CleanMode = 'remove-breaks' | 'convert-soft-breaks' | 'both';
+type QuickActionScope = 'selection' | 'page' | 'document';
+
+interface QuickActionParameters {
+  mode: CleanMode;
+  threshold?: number;
+  scope: QuickActionScope;
+}
+
+type ComponentContext = 'none' | 'main-component' | 'instance-inherited' | 'instance-override';
+
+// clean: そのノードを直接クリーニング、fix-main: メインコンポーネント側を修正、reset-override: メインのテキストに戻す
+type ComponentAction = 'clean' | 'fix-main' | 'reset-override';
+
+// STRING 変数のモードごとの値のうち、改行を含むもの
+interface VariableScanResult {
+  variableId: string;
+  variableName: string;
+  collectionName: string;
+  modeId: string;
+  modeName: string;
+  originalText: string;
+  proposedText: string;
+  previewSegments: PreviewSegment[];
+}
+
+// 変数の値はノードの幅を持たないため、基準となる幅とフォントサイズを指定して処理する
+interface VariableReferenceLayout {
+  referenceWidth: number;
+  fontSize: number;
+}
+
+// テキストの characters が TEXT コンポーネントプロパティに紐づいている場合の参照先
+interface TextPropertyBinding {
+  propertyName: string;
+  displayName: string;
+  owner: InstanceNode | ComponentNode | ComponentSetNode;
+}
+
+interface ComponentTextInfo {
+  context: ComponentContext;
+  propertyName?: string;
+  componentName?: string;
+  sourceNodeId?: string;
+  isRemote?: boolean;
+  affectedInstanceCount?: number;
+}
+
+// スキャン結果のレポート（CSV / JSON で書き出し）
+interface ScanReportRow {
+  nodeId: string;
+  page: string;
+  framePath: string;
+  layerName: string;
+  issueTypes: string[];
+  confidence: number | null;
+  reasons: string[];
+  lineCount: number;
+  lineWidthRatios: number[];
+  lineAvailableWidths: number[];
+  originalText: string;
+  proposedText: string;
+  status: string;
+}
+
+interface ScanReport {
+  fileName: string;
+  generatedAt: string;
+  totalTexts: number;
+  summary: { issueType: string; count: number }[];
+  rows: ScanReportRow[];
+}
+
+type ReportFormat = 'csv' | 'json';
+
 interface ProcessingResult {
   node: TextNode;
   success: boolean;
@@ -57,22 +374,331 @@ interface UIMessage {
 class SharedUtilities {
   private regexCache: RegexPatternCache;
   private widthCalculator: TextWidthCalculator;
+  private measurementProbe: TextMeasurementProbe;
 
-  constructor(config: ProcessingConfig) {
+  constructor(config: ProcessingConfig, fontManager: FontManager) {
     this.regexCache = new RegexPatternCache();
     this.widthCalculator = new TextWidthCalculator(config);
+    this.measurementProbe = new TextMeasurementProbe(fontManager);
   }
 
   getBreakPattern(softBreakChars: string[]): RegExp {
     return this.regexCache.getBreakPattern(softBreakChars);
   }
 
-  estimateTextWidth(text: string, fontSize: number): number {
-    return this.widthCalculator.estimateTextWidth(text, fontSize);
+  // 補正係数を掛ける前の推定幅（幅の補正に使用）
+  estimateBaseTextWidth(text: string, fontSize: number, fontName?: FontName): number {
+    return this.widthCalculator.estimateBaseTextWidth(text, fontSize, fontName);
+  }
+
+  // プローブで実測し、フォントが利用できない場合のみ文字幅テーブルと字間で推定
+  async measureTextWidth(text: string, style: TextMeasureStyle): Promise<number> {
+    const measuredWidth = await this.measurementProbe.measureTextWidth(text, style);
+    if (measuredWidth !== null) {
+      return measuredWidth;
+    }
+    return this.widthCalculator.estimateTextWidth(text, style.fontSize, style.fontName) +
+      SharedUtilities.getLetterSpacingWidth(text, style);
+  }
+
+  // 行をスタイル範囲ごとに分割し、それぞれのフォント・サイズで計測した幅を合計する
+  async measureRangeWidth(line: TextLineRange, runs: StyledTextRun[]): Promise<number> {
+    const lineEnd = line.start + line.text.length;
+    let totalWidth = 0;
+    let covered = 0;
+
+    for (const run of runs) {
+      const segmentStart = Math.max(run.start, line.start);
+      const segmentEnd = Math.min(run.end, lineEnd);
+      if (segmentStart >= segmentEnd) continue;
+
+      const segmentText = line.text.substring(segmentStart - line.start, segmentEnd - line.start);
+      totalWidth += await this.measureTextWidth(segmentText, run.style);
+      covered += segmentEnd - segmentStart;
+    }
+
+    // スキャン後にテキストが変わった等で範囲外の文字は末尾のスタイルで計測
+    if (covered < line.text.length && runs.length > 0) {
+      const fallbackStyle = runs[runs.length - 1].style;
+      return await this.measureTextWidth(line.text, fallbackStyle);
+    }
+
+    return totalWidth;
+  }
+
+  // 禁則処理で次の行へ追い出された文字幅を含めた、本来の折り返し位置までの行幅
+  async measureWrappedLineWidth(
+    line: TextLineRange,
+    nextLine: TextLineRange | undefined,
+    runs: StyledTextRun[]
+  ): Promise<number> {
+    const width = await this.measureRangeWidth(line, runs);
+    if (!nextLine) {
+      return width;
+    }
+
+    const pushedLength = KinsokuRules.getPushedOutLength(nextLine.text);
+    if (pushedLength === 0) {
+      return width;
+    }
+
+    const pushedRange = { text: nextLine.text.substring(0, pushedLength), start: nextLine.start };
+    return width + await this.measureRangeWidth(pushedRange, runs);
+  }
+
+  disposeMeasurementProbe(): void {
+    this.measurementProbe.dispose();
+  }
+
+  static getPage(node: BaseNode): PageNode | null {
+    let current: BaseNode | null = node;
+    while (current && current.type !== 'PAGE') {
+      current = current.parent;
+    }
+    return current as PageNode | null;
+  }
+
+  // 他のページのノードも取得できるよう getNodeByIdAsync で解決する
+  static async findSceneNodesById(nodeIds: string[]): Promise<SceneNode[]> {
+    const nodes = await Promise.all(nodeIds.map(id => figma.getNodeByIdAsync(id)));
+    return nodes.filter((node): node is SceneNode =>
+      node !== null && node.type !== 'DOCUMENT' && node.type !== 'PAGE'
+    );
   }
 
   static getFontSize(node: TextNode): number {
-    return typeof node.fontSize === 'number' ? node.fontSize : PROCESSING_CONSTANTS.DEFAULT_FONT_SIZE;
+    if (typeof node.fontSize === 'number') {
+      return node.fontSize;
+    }
+    // mixedの場合は先頭文字のサイズを代表値として使用
+    if (node.characters.length > 0) {
+      return node.getRangeFontSize(0, 1) as number;
+    }
+    return PROCESSING_CONSTANTS.DEFAULT_FONT_SIZE;
+  }
+
+  static getStyleRuns(node: TextNode): StyledTextRun[] {
+    if (node.characters.length === 0) {
+      return [{ start: 0, end: 0, style: SharedUtilities.getTextStyle(node) }];
+    }
+
+    const segments = node.getStyledTextSegments([
+      'fontSize', 'fontName', 'letterSpacing', 'paragraphIndent', 'indentation', 'listOptions'
+    ]);
+    return segments.map(segment => {
+      // リスト項目は階層0でも1段分インデントされる
+      const listLevel = Math.max(segment.indentation, segment.listOptions.type !== 'NONE' ? 1 : 0);
+      return {
+        start: segment.start,
+        end: segment.end,
+        style: {
+          fontName: segment.fontName,
+          fontSize: segment.fontSize,
+          letterSpacing: segment.letterSpacing
+        },
+        indent: {
+          firstLine: segment.paragraphIndent,
+          list: listLevel * segment.fontSize * PROCESSING_CONSTANTS.LIST_INDENT_EM
+        }
+      };
+    });
+  }
+
+  // 字間は PERCENT ならフォントサイズに対する割合、PIXELS ならそのまま1文字ごとに加わる
+  static getLetterSpacingWidth(text: string, style: TextMeasureStyle): number {
+    const { letterSpacing } = style;
+    const perCharacter = letterSpacing.unit === 'PERCENT'
+      ? style.fontSize * letterSpacing.value / 100
+      : letterSpacing.value;
+    return perCharacter * Array.from(text).length;
+  }
+
+  // 行頭の位置のスタイル範囲から字下げを求め、ボックスの幅から引いた行の利用可能幅
+  // 段落の字下げは改行（\n）直後の段落の先頭行にのみかかる
+  static getAvailableWidth(
+    containerWidth: number,
+    lineStart: number,
+    runs: StyledTextRun[],
+    isParagraphStart: boolean
+  ): number {
+    const run = runs.find(item => lineStart >= item.start && lineStart < item.end) ?? runs[runs.length - 1];
+    const indent = run?.indent;
+    if (!indent) {
+      return containerWidth;
+    }
+
+    const indentWidth = indent.list + (isParagraphStart ? indent.firstLine : 0);
+    // 字下げがボックスの幅を超える設定でも比率が発散しないよう、元の幅の1割は残す
+    return Math.max(containerWidth - indentWidth, containerWidth * 0.1);
+  }
+
+  // 前後の空白を除いた範囲に開始位置を合わせて詰める
+  static trimLineRange(line: TextLineRange): TextLineRange {
+    const leading = line.text.length - line.text.replace(/^\s+/, '').length;
+    return {
+      text: line.text.trim(),
+      start: line.start + leading
+    };
+  }
+
+  static getTextStyle(node: TextNode): TextMeasureStyle {
+    const hasCharacters = node.characters.length > 0;
+
+    // mixedの場合は先頭文字のスタイルを代表値として使用
+    let fontName = node.fontName;
+    if (fontName === figma.mixed) {
+      fontName = hasCharacters ? node.getRangeFontName(0, 1) as FontName : PROCESSING_CONSTANTS.DEFAULT_FONT_NAME;
+    }
+
+    let letterSpacing = node.letterSpacing;
+    if (letterSpacing === figma.mixed) {
+      letterSpacing = hasCharacters ? node.getRangeLetterSpacing(0, 1) as LetterSpacing : { unit: 'PIXELS', value: 0 };
+    }
+
+    return {
+      fontName,
+      fontSize: SharedUtilities.getFontSize(node),
+      letterSpacing
+    };
+  }
+}
+
+// フォントごとの文字幅のプロファイル（組み込み＋設定から読み込んだもの）
+// 行幅は読み込めるフォントならプローブで実測するため、プロファイルはファイルにないフォントのテキストの判定と幅の補正に使う
+class FontMetricRegistry {
+  // よく使われる日本語・欧文のUIフォントの概算値（em 単位）
+  private static readonly BUNDLED_PROFILES: ReadonlyArray<FontMetricProfile> = [
+    {
+      family: 'Inter',
+      classes: { 'full-width': 1.0, digit: 0.62, upper: 0.7, lower: 0.56, space: 0.28, punctuation: 0.34, other: 0.6 },
+      characters: { i: 0.24, l: 0.24, j: 0.24, f: 0.36, t: 0.36, r: 0.38, m: 0.87, w: 0.8, I: 0.28, J: 0.5, M: 0.88, W: 0.98, 1: 0.44 }
+    },
+    {
+      family: 'Roboto',
+      classes: { 'full-width': 1.0, digit: 0.56, upper: 0.65, lower: 0.52, space: 0.25, punctuation: 0.3, other: 0.56 },
+      characters: { i: 0.24, l: 0.24, j: 0.24, f: 0.35, t: 0.33, r: 0.34, m: 0.88, w: 0.75, I: 0.27, J: 0.55, M: 0.87, W: 0.89 }
+    },
+    {
+      family: 'Roboto Condensed',
+      classes: { 'full-width': 1.0, digit: 0.49, upper: 0.56, lower: 0.45, space: 0.22, punctuation: 0.26, other: 0.48 },
+      characters: { i: 0.21, l: 0.21, j: 0.21, m: 0.76, w: 0.65, I: 0.23, M: 0.75, W: 0.77 }
+    },
+    {
+      family: 'SF Pro Text',
+      classes: { 'full-width': 1.0, digit: 0.6, upper: 0.68, lower: 0.54, space: 0.27, punctuation: 0.32, other: 0.58 },
+      characters: { i: 0.23, l: 0.23, j: 0.23, m: 0.85, w: 0.77, I: 0.26, M: 0.86, W: 0.96 }
+    },
+    {
+      family: 'Noto Sans JP',
+      classes: { 'full-width': 1.0, digit: 0.55, upper: 0.65, lower: 0.53, space: 0.22, punctuation: 0.3, other: 0.56 },
+      characters: { i: 0.24, l: 0.25, m: 0.85, w: 0.75, I: 0.28, M: 0.83, W: 0.9 }
+    },
+    {
+      family: 'Noto Sans CJK JP',
+      classes: { 'full-width': 1.0, digit: 0.55, upper: 0.65, lower: 0.53, space: 0.22, punctuation: 0.3, other: 0.56 },
+      characters: { i: 0.24, l: 0.25, m: 0.85, w: 0.75, I: 0.28, M: 0.83, W: 0.9 }
+    },
+    {
+      family: 'Hiragino Sans',
+      classes: { 'full-width': 1.0, digit: 0.6, upper: 0.68, lower: 0.56, space: 0.25, punctuation: 0.32, other: 0.58 },
+      characters: { i: 0.26, l: 0.26, m: 0.88, w: 0.8, I: 0.3, M: 0.86, W: 0.96 }
+    },
+    {
+      family: 'Yu Gothic',
+      classes: { 'full-width': 1.0, digit: 0.52, upper: 0.64, lower: 0.5, space: 0.24, punctuation: 0.28, other: 0.54 },
+      characters: { i: 0.22, l: 0.22, m: 0.8, w: 0.72, I: 0.25, M: 0.82, W: 0.9 }
+    },
+    {
+      family: 'BIZ UDPGothic',
+      classes: { 'full-width': 1.0, digit: 0.58, upper: 0.66, lower: 0.55, space: 0.3, punctuation: 0.33, other: 0.58 }
+    },
+    // 等幅フォントは全角を除きすべて同じ幅
+    { family: 'Roboto Mono', classes: { 'full-width': 1.0, digit: 0.6, upper: 0.6, lower: 0.6, space: 0.6, punctuation: 0.6, other: 0.6 } },
+    { family: 'Source Code Pro', classes: { 'full-width': 1.0, digit: 0.6, upper: 0.6, lower: 0.6, space: 0.6, punctuation: 0.6, other: 0.6 } },
+    { family: 'JetBrains Mono', classes: { 'full-width': 1.0, digit: 0.6, upper: 0.6, lower: 0.6, space: 0.6, punctuation: 0.6, other: 0.6 } },
+    { family: 'SF Mono', classes: { 'full-width': 1.0, digit: 0.6, upper: 0.6, lower: 0.6, space: 0.6, punctuation: 0.6, other: 0.6 } },
+    { family: 'BIZ UDGothic', classes: { 'full-width': 1.0, digit: 0.5, upper: 0.5, lower: 0.5, space: 0.5, punctuation: 0.5, other: 0.5 } }
+  ];
+
+  private profiles: FontMetricProfile[];
+
+  // 設定から読み込んだプロファイルは組み込みより優先する
+  constructor(customProfiles: FontMetricProfile[] = []) {
+    this.profiles = [...customProfiles, ...FontMetricRegistry.BUNDLED_PROFILES];
+  }
+
+  static getBundledFamilies(): string[] {
+    return FontMetricRegistry.BUNDLED_PROFILES.map(profile => profile.family);
+  }
+
+  // スタイルまで一致するプロファイル、なければファミリーのみ一致するプロファイルを使う
+  find(fontName: FontName): FontMetricProfile | null {
+    return this.profiles.find(profile => profile.family === fontName.family && profile.style === fontName.style) ??
+      this.profiles.find(profile => profile.family === fontName.family && profile.style === undefined) ??
+      null;
+  }
+
+  // em 単位の文字幅。プロファイルに該当する幅がなければ null
+  getCharacterWidth(fontName: FontName, char: string, charClass: CharacterClass): number | null {
+    const profile = this.find(fontName);
+    if (!profile) return null;
+
+    return profile.characters?.[char] ?? profile.classes?.[charClass] ?? null;
+  }
+
+  // 問題がなければ null、あればエラーメッセージを返す
+  static validate(profile: FontMetricProfile): string | null {
+    if (!profile || typeof profile !== 'object' || typeof profile.family !== 'string' || profile.family === '') {
+      return 'フォントファミリーを指定してください';
+    }
+    if (profile.style !== undefined && typeof profile.style !== 'string') {
+      return `「${profile.family}」のスタイルが正しくありません`;
+    }
+    if (!profile.characters && !profile.classes) {
+      return `「${profile.family}」に文字幅がありません`;
+    }
+
+    const widths = [
+      ...Object.values(profile.characters ?? {}),
+      ...Object.values(profile.classes ?? {})
+    ];
+    if (widths.some(width => typeof width !== 'number' || !(width >= 0 && width <= 3))) {
+      return `「${profile.family}」の文字幅は0〜3（em）で指定してください`;
+    }
+
+    return null;
+  }
+
+  // インポート用の JSON（{ format, version, profiles }）を検証して読み込む
+  static parse(json: string): { profiles: FontMetricProfile[]; errors: string[] } {
+    let data: { format?: unknown; profiles?: unknown };
+    try {
+      data = JSON.parse(json);
+    } catch {
+      return { profiles: [], errors: ['JSONとして読み込めませんでした'] };
+    }
+
+    if (!data || data.format !== PROCESSING_CONSTANTS.FONT_METRICS_FORMAT || !Array.isArray(data.profiles)) {
+      return { profiles: [], errors: ['フォントメトリクスのファイルではありません'] };
+    }
+
+    const profiles: FontMetricProfile[] = [];
+    const errors: string[] = [];
+    for (const profile of data.profiles as FontMetricProfile[]) {
+      const error = FontMetricRegistry.validate(profile);
+      if (error) {
+        errors.push(error);
+      } else {
+        profiles.push({
+          family: profile.family,
+          style: profile.style,
+          characters: profile.characters,
+          classes: profile.classes
+        });
+      }
+    }
+
+    return { profiles, errors };
   }
 }
 
@@ -80,6 +706,7 @@ class TextWidthCalculator {
   public config: ProcessingConfig;
   private measurementCache: Map<string, number> = new Map();
   private characterWidthCache: Map<string, number> = new Map();
+  private metricRegistry: FontMetricRegistry;
 
   // キャッシュサイズの定数
   private static readonly CACHE_LIMITS = {
@@ -115,12 +742,27 @@ class TextWidthCalculator {
 
   constructor(config: ProcessingConfig) {
     this.config = config;
+    this.metricRegistry = new FontMetricRegistry(config.fontMetricProfiles);
+  }
+
+  // フォントごとの補正係数（なければ設定の「フォント幅係数」）を掛けた推定幅
+  estimateTextWidth(text: string, fontSize: number, fontName?: FontName): number {
+    return this.estimateBaseTextWidth(text, fontSize, fontName) * this.getWidthFactor(fontName);
   }
 
-  estimateTextWidth(text: string, fontSize: number): number {
+  getWidthFactor(fontName?: FontName): number {
+    const calibration = fontName && this.config.fontCalibrations?.find(item =>
+      item.family === fontName.family && item.style === fontName.style
+    );
+    return calibration ? calibration.factor : (this.config.fontWidthMultiplier || 1.0);
+  }
+
+  estimateBaseTextWidth(text: string, fontSize: number, fontName?: FontName): number {
+    const fontKey = fontName ? `${fontName.family}_${fontName.style}` : '';
+
     // 効率的なキャッシュキー生成（短いテキストのみキャッシュ）
     if (text.length <= 100) { // 長いテキストはキャッシュしない
-      const cacheKey = `${text}_${fontSize}`;
+      const cacheKey = `${text}_${fontSize}_${fontKey}`;
       const cached = this.measurementCache.get(cacheKey);
       if (cached !== undefined) {
         return cached;
@@ -132,13 +774,13 @@ class TextWidthCalculator {
     // 実際の文字幅に基づく計算
     for (let i = 0; i < text.length; i++) {
       const char = text[i];
-      const charWidth = this.measureActualCharacterWidth(char, fontSize);
+      const charWidth = this.measureActualCharacterWidth(char, fontSize, fontName);
       totalWidth += charWidth;
     }
 
     // 効率的なキャッシュ管理（短いテキストのみ）
     if (text.length <= 100) {
-      const cacheKey = `${text}_${fontSize}`;
+      const cacheKey = `${text}_${fontSize}_${fontKey}`;
       this.addToCache(this.measurementCache, cacheKey, totalWidth, TextWidthCalculator.CACHE_LIMITS.MEASUREMENT);
     }
 
@@ -156,8 +798,18 @@ class TextWidthCalculator {
       (charCode >= 0x30A0 && charCode <= 0x30FF) || // カタカナ
       (charCode >= 0x4E00 && charCode <= 0x9FAF) || // CJK統合漢字
       (charCode >= 0x3400 && charCode <= 0x4DBF) || // CJK拡張A
-      (charCode >= 0xFF00 && charCode <= 0xFFEF) || // 全角英数字・記号
-      (charCode >= 0x3000 && charCode <= 0x303F)    // CJK記号・句読点
+      (charCode >= 0xFF00 && charCode <= 0xFF60) || // 全角英数字・記号
+      (charCode >= 0xFFE0 && charCode <= 0xFFE6) || // 全角通貨記号
+      (charCode >= 0x3000 && charCode <= 0x303F) || // CJK記号・句読点
+      (charCode >= 0xAC00 && charCode <= 0xD7AF) || // ハングル音節
+      (charCode >= 0x1100 && charCode <= 0x11FF) || // ハングル字母
+      (charCode >= 0x3130 && charCode <= 0x318F) || // ハングル互換字母
+      (charCode >= 0x3100 && charCode <= 0x312F) || // 注音字母
+      (charCode >= 0x31F0 && charCode <= 0x31FF) || // カタカナ拡張
+      (charCode >= 0x3200 && charCode <= 0x33FF) || // 囲みCJK文字・CJK互換用文字
+      (charCode >= 0xF900 && charCode <= 0xFAFF) || // CJK互換漢字
+      (charCode >= 0xFE30 && charCode <= 0xFE4F) || // CJK互換形
+      (charCode >= 0xD800 && charCode <= 0xDBFF)    // サロゲートペア上位（CJK拡張B以降・絵文字）
     );
   }
 
@@ -244,16 +896,19 @@ class TextWidthCalculator {
     return halfWidthChars.join('');
   }
 
-  // 実際の文字幅を測定（文字幅テーブルベース）
-  private measureActualCharacterWidth(char: string, fontSize: number): number {
-    const cacheKey = `${char}_${fontSize}`;
+  // 実際の文字幅を測定（フォントのメトリクス、なければ文字幅テーブルベース）
+  private measureActualCharacterWidth(char: string, fontSize: number, fontName?: FontName): number {
+    const cacheKey = fontName ? `${char}_${fontSize}_${fontName.family}_${fontName.style}` : `${char}_${fontSize}`;
     if (this.characterWidthCache.has(cacheKey)) {
       return this.characterWidthCache.get(cacheKey)!;
     }
 
     // Figmaプラグイン環境ではDOM APIが使用できないため、
-    // 文字幅テーブルベースの計算を使用
-    const width = this.getFallbackCharacterWidth(char, fontSize);
+    // フォントのメトリクスに該当する幅がなければ汎用の文字幅テーブルで計算
+    const profileWidth = fontName
+      ? this.metricRegistry.getCharacterWidth(fontName, char, this.getCharacterClass(char))
+      : null;
+    const width = profileWidth !== null ? fontSize * profileWidth : this.getFallbackCharacterWidth(char, fontSize);
 
     // 効率的なキャッシュ管理
     this.addToCache(this.characterWidthCache, cacheKey, width, TextWidthCalculator.CACHE_LIMITS.CHARACTER);
@@ -261,27 +916,39 @@ class TextWidthCalculator {
     return width;
   }
 
+  private getCharacterClass(char: string): CharacterClass {
+    const charCode = char.charCodeAt(0);
+    const { CHAR_CODES } = TextWidthCalculator;
+
+    if (this.isFullWidthCharacter(charCode)) return 'full-width';
+    if (charCode >= CHAR_CODES.DIGIT_0 && charCode <= CHAR_CODES.DIGIT_9) return 'digit';
+    if (charCode >= CHAR_CODES.UPPER_A && charCode <= CHAR_CODES.UPPER_Z) return 'upper';
+    if (charCode >= CHAR_CODES.LOWER_A && charCode <= CHAR_CODES.LOWER_Z) return 'lower';
+    if (charCode === CHAR_CODES.SPACE) return 'space';
+    if (charCode > CHAR_CODES.SPACE && charCode <= 0x007E) return 'punctuation';
+    return 'other';
+  }
+
   // 効率的な文字幅計算
   private getFallbackCharacterWidth(char: string, fontSize: number): number {
     const charCode = char.charCodeAt(0);
-    const baseMultiplier = this.config.fontWidthMultiplier || 1.0;
 
     // 全角文字の処理（最も頻繁なケース）
+    // フォントごとの補正係数・「フォント幅係数」はテキスト全体の幅に掛ける
     if (this.isFullWidthCharacter(charCode)) {
       // 日本語句読点は通常の全角文字より若干狭い
       const multiplier = this.isPunctuation(charCode) ? 0.95 : 1.0;
-      // baseMultiplierで全体的な調整を行う（UI設定の「フォント幅係数」）
-      return fontSize * baseMultiplier * multiplier;
+      return fontSize * multiplier;
     }
 
     // 特殊文字テーブルから取得（例外的な幅のみ）
     const specialWidth = TextWidthCalculator.CHARACTER_WIDTH_MAP.get(char);
     if (specialWidth !== undefined) {
-      return fontSize * baseMultiplier * specialWidth;
+      return fontSize * specialWidth;
     }
 
     // 効率的な推定処理（大部分の文字）
-    return fontSize * baseMultiplier * this.estimateUnknownCharacterWidth(char, charCode);
+    return fontSize * this.estimateUnknownCharacterWidth(char, charCode);
   }
 
   // 高速Unicode範囲判定
@@ -294,6 +961,12 @@ class TextWidthCalculator {
     // 高頻度範囲の早期判定
     if (charCode <= 0x00FF) return 0.58;  // ラテン1補助
     if (charCode <= 0x017F) return 0.58;  // ラテン拡張A
+    if (charCode <= 0x024F) return 0.58;  // ラテン拡張B
+    if (charCode >= 0x0370 && charCode <= 0x03FF) return 0.58;  // ギリシャ文字
+    if (charCode >= 0x0400 && charCode <= 0x052F) return 0.6;   // キリル文字
+    if (charCode >= 0x0E00 && charCode <= 0x0E7F) return 0.55;  // タイ文字
+    if (charCode >= 0x1E00 && charCode <= 0x1EFF) return 0.58;  // ラテン拡張追加（ベトナム語）
+    if (charCode >= 0xDC00 && charCode <= 0xDFFF) return 0;     // サロゲートペア下位（上位側で全角幅を計上済み）
 
     // 特殊記号範囲（低頻度）
     if (charCode >= 0x2000) {
@@ -375,834 +1048,3344 @@ class TextWidthCalculator {
   }
 }
 
-class RegexPatternCache {
-  private cache: Map<string, RegExp> = new Map();
-  private readonly maxSize: number = 10;
+// ファイル内の幅が自動の1行テキストについて、実際の幅と推定幅を比べてフォントごとの補正係数を求める
+class WidthCalibrator {
+  private utils: SharedUtilities;
 
-  getBreakPattern(softBreakChars: string[]): RegExp {
-    const allBreakChars = ['\n', ...softBreakChars];
-    const cacheKey = allBreakChars.join('|');
+  constructor(utils: SharedUtilities) {
+    this.utils = utils;
+  }
 
-    if (!this.cache.has(cacheKey)) {
-      // 正規表現の特殊文字を正しくエスケープ
-      const escapedChars = allBreakChars.map(char =>
-        char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
-      );
-      const pattern = new RegExp(`[${escapedChars.join('')}]`);
-      this.cache.set(cacheKey, pattern);
+  async calibrate(): Promise<FontCalibration[]> {
+    const samples = await this.collectSamples();
+    const calibrations: FontCalibration[] = [];
 
-      // キャッシュサイズ制限（メモリリーク防止）
-      if (this.cache.size > this.maxSize) {
-        const firstKey = this.cache.keys().next().value;
-        if (firstKey) {
-          this.cache.delete(firstKey);
-        }
-      }
+    for (const [key, fontSamples] of samples) {
+      if (fontSamples.length < PROCESSING_CONSTANTS.CALIBRATION.MIN_SAMPLES) continue;
+
+      const [family, style] = JSON.parse(key) as [string, string];
+      calibrations.push({
+        family,
+        style,
+        factor: WidthCalibrator.fitFactor(fontSamples),
+        sampleCount: fontSamples.length
+      });
     }
 
-    return this.cache.get(cacheKey)!;
+    return calibrations;
   }
-}
 
-// ===== TEXT ANALYZER CLASS =====
-class TextAnalyzer {
-  private config: ProcessingConfig;
-  private utils: SharedUtilities;
-
-  constructor(config: ProcessingConfig, utils: SharedUtilities) {
-    this.config = config;
-    this.utils = utils;
-  }
+  // 原点を通る直線の最小二乗法：実際の幅 ≒ 係数 × 推定幅
+  static fitFactor(samples: { actual: number; estimated: number }[]): number {
+    const { MIN_FACTOR, MAX_FACTOR } = PROCESSING_CONSTANTS.CALIBRATION;
+    const numerator = samples.reduce((sum, sample) => sum + sample.actual * sample.estimated, 0);
+    const denominator = samples.reduce((sum, sample) => sum + sample.estimated * sample.estimated, 0);
+    if (denominator === 0) return 1;
 
-  private getBreakPattern(): RegExp {
-    return this.utils.getBreakPattern(this.config.softBreakChars);
+    const factor = Math.min(MAX_FACTOR, Math.max(MIN_FACTOR, numerator / denominator));
+    return Math.round(factor * 1000) / 1000;
   }
 
-  async analyzeTextNode(node: TextNode): Promise<TextAnalysisResult> {
-    const issues: DetectedIssue[] = [];
-
-    if (node.hasMissingFont) {
-      return {
-        node,
-        issues: [],
-        estimatedChanges: 'Skipped (missing font)',
-        originalText: node.characters
-      };
-    }
+  // フォント（ファミリー・スタイル）ごとに、実際の幅と補正前の推定幅を集める
+  private async collectSamples(): Promise<Map<string, { actual: number; estimated: number }[]>> {
+    await figma.loadAllPagesAsync();
 
-    if (node.locked || !node.visible) {
-      return {
-        node,
-        issues: [],
-        estimatedChanges: 'Skipped (locked or hidden)',
-        originalText: node.characters
-      };
+    const samples = new Map<string, { actual: number; estimated: number }[]>();
+    const nodes: TextNode[] = [];
+    for (const page of figma.root.children) {
+      nodes.push(...page.findAllWithCriteria({ types: ['TEXT'] }));
     }
 
-    const currentText = node.characters;
+    for (const node of nodes) {
+      if (!WidthCalibrator.isSampleNode(node)) continue;
 
-    if (currentText.length < this.config.minCharacters) {
-      return {
-        node,
-        issues: [],
-        estimatedChanges: 'Skipped (too short)',
-        originalText: currentText
-      };
-    }
+      const fontName = node.fontName as FontName;
+      const key = JSON.stringify([fontName.family, fontName.style]);
+      const fontSamples = samples.get(key) ?? [];
+      if (fontSamples.length >= PROCESSING_CONSTANTS.CALIBRATION.MAX_SAMPLES_PER_FONT) continue;
 
-    // 改行文字やソフト改行文字を含まないテキストは除外
-    if (!this.hasBreakCharacters(currentText)) {
-      return {
-        node,
-        issues: [],
-        estimatedChanges: 'Skipped (no line breaks)',
-        originalText: currentText
-      };
+      const estimated = this.utils.estimateBaseTextWidth(node.characters, node.fontSize as number, fontName);
+      if (estimated > 0) {
+        fontSamples.push({ actual: node.width, estimated });
+        samples.set(key, fontSamples);
+      }
     }
 
-    const autoWidthIssues = this.detectAutoWidthIssues(node);
-    issues.push(...autoWidthIssues);
+    return samples;
+  }
 
-    const edgeBreakingIssues = this.detectEdgeBreaking(node);
-    issues.push(...edgeBreakingIssues);
+  // 単一のフォント・サイズで字間・字下げが0の、改行を含まない幅が自動のテキストのみを標本にする
+  // フォントがないテキストも、保存されている幅は元のフォントでの実測値なので標本に含める
+  private static isSampleNode(node: TextNode): boolean {
+    if (node.textAutoResize !== 'WIDTH_AND_HEIGHT' || !node.visible) return false;
+    if (node.fontName === figma.mixed || node.fontSize === figma.mixed || node.letterSpacing === figma.mixed) return false;
+    if (node.letterSpacing.value !== 0 || node.paragraphIndent !== 0) return false;
+
+    const text = node.characters;
+    return text.trim().length >= PROCESSING_CONSTANTS.CALIBRATION.MIN_CHARACTERS &&
+      text === text.trim() &&
+      !/[\n\u2028\u2029]/.test(text) &&
+      node.getRangeIndentation(0, text.length) === 0;
+  }
+}
 
-    const softBreakIssues = this.detectSoftBreaks(node);
-    issues.push(...softBreakIssues);
+// 画面外の非表示テキストノードに同じフォント設定で文字列を流し込み、実際の行幅を読み取る
+class TextMeasurementProbe {
+  private fontManager: FontManager;
+  private probeNode: TextNode | null = null;
+  private widthCache: Map<string, Map<string, number>> = new Map();
+  private unavailableFonts: Set<string> = new Set();
 
-    const estimatedChanges = this.generateEstimatedChanges(issues);
+  private static readonly PROBE_NAME = 'Line Break Cleaner (measurement probe)';
+  private static readonly PROBE_OFFSET = -100000;
+  private static readonly CACHE_LIMIT_PER_FONT = 500;
 
-    return {
-      node,
-      issues,
-      estimatedChanges,
-      originalText: currentText
-    };
+  constructor(fontManager: FontManager) {
+    this.fontManager = fontManager;
   }
 
-  private detectAutoWidthIssues(node: TextNode): DetectedIssue[] {
-    const issues: DetectedIssue[] = [];
+  // フォントが読み込めない場合は null を返し、呼び出し側で文字幅テーブルにフォールバックする
+  async measureTextWidth(text: string, style: TextMeasureStyle): Promise<number | null> {
+    const fontKey = `${style.fontName.family}-${style.fontName.style}`;
+    if (this.unavailableFonts.has(fontKey)) {
+      return null;
+    }
 
-    try {
-      const currentAutoResize = node.textAutoResize;
-      const currentText = node.characters;
-
-      // WIDTH_AND_HEIGHTのテキストのみをauto-width問題として検出
-      if (currentAutoResize === 'WIDTH_AND_HEIGHT' && currentText.includes('\n')) {
-        issues.push({
-          type: 'auto-width'
-        });
-      }
-    } catch (error) {
-      console.warn('Could not read textAutoResize for node:', node.name);
+    const styleKey = `${fontKey}_${style.fontSize}_${style.letterSpacing.value}${style.letterSpacing.unit}`;
+    let fontCache = this.widthCache.get(styleKey);
+    const cached = fontCache?.get(text);
+    if (cached !== undefined) {
+      return cached;
     }
 
-    return issues;
-  }
-
-  private detectEdgeBreaking(node: TextNode): DetectedIssue[] {
-    const issues: DetectedIssue[] = [];
-
     try {
-      const currentText = node.characters;
-      const nodeWidth = node.width;
-      const fontSize = SharedUtilities.getFontSize(node);
+      await this.fontManager.loadFont(style.fontName);
+    } catch {
+      this.unavailableFonts.add(fontKey);
+      return null;
+    }
 
-      const autoResize = node.textAutoResize;
-      if (autoResize === 'NONE' || autoResize === 'HEIGHT') {
-        const suspiciousLines = this.findEdgeBreakingLines(currentText, nodeWidth, fontSize);
+    const probe = this.getProbeNode();
+    probe.fontName = style.fontName;
+    probe.fontSize = style.fontSize;
+    probe.letterSpacing = style.letterSpacing;
+    probe.characters = text;
+    const width = text.length > 0 ? probe.width : 0;
 
-        if (suspiciousLines.length > 0) {
-          issues.push({
-            type: 'edge-breaking'
-          });
-        }
+    if (!fontCache) {
+      fontCache = new Map();
+      this.widthCache.set(styleKey, fontCache);
+    }
+    if (fontCache.size >= TextMeasurementProbe.CACHE_LIMIT_PER_FONT) {
+      const firstKey = fontCache.keys().next().value;
+      if (firstKey !== undefined) {
+        fontCache.delete(firstKey);
       }
-    } catch (error) {
-      console.warn('Could not analyze edge breaking for node:', node.name);
     }
+    fontCache.set(text, width);
 
-    return issues;
+    return width;
   }
 
-  private detectSoftBreaks(node: TextNode): DetectedIssue[] {
-    const issues: DetectedIssue[] = [];
-
-    try {
-      const currentText = node.characters;
-      const paragraphSpacing = node.paragraphSpacing;
+  private getProbeNode(): TextNode {
+    if (this.probeNode && !this.probeNode.removed) {
+      return this.probeNode;
+    }
 
-      if (paragraphSpacing === 0) {
-        const softBreakCount = this.countSoftBreaks(currentText);
+    const probe = figma.createText();
+    probe.name = TextMeasurementProbe.PROBE_NAME;
+    probe.x = TextMeasurementProbe.PROBE_OFFSET;
+    probe.y = TextMeasurementProbe.PROBE_OFFSET;
+    probe.visible = false;
+    probe.textAutoResize = 'WIDTH_AND_HEIGHT';
+    this.probeNode = probe;
+    return probe;
+  }
 
-        if (softBreakCount > 0) {
-          issues.push({
-            type: 'soft-break'
-          });
-        }
-      }
-    } catch (error) {
-      console.warn('Could not analyze soft breaks for node:', node.name);
+  // 計測用ノードのみ削除し、計測結果のキャッシュは保持する
+  dispose(): void {
+    if (this.probeNode && !this.probeNode.removed) {
+      this.probeNode.remove();
     }
-
-    return issues;
+    this.probeNode = null;
   }
+}
 
+// 日本語組版の禁則処理（JIS X 4051 の行頭・行末禁則をベースにした簡易セット）
+class KinsokuRules {
+  // 行頭禁則：行頭に来てはいけない文字（閉じ括弧・句読点・小書き仮名・長音・中点・三点リーダなど）
+  private static readonly LINE_START_PROHIBITED: ReadonlySet<string> = new Set([
+    ...'、。，．）」』】〕〉》］｝〙〗’”',
+    ...'ぁぃぅぇぉっゃゅょゎゕゖァィゥェォッャュョヮヵヶㇰㇱㇲㇳㇴㇵㇶㇷㇸㇹㇺㇻㇼㇽㇾㇿ',
+    ...'ー～〜ゝゞヽヾ々〻‐゠・：；！？‼⁇⁈⁉…‥'
+  ]);
 
+  // 行末禁則：行末に来てはいけない文字（開き括弧・引用符）
+  private static readonly LINE_END_PROHIBITED: ReadonlySet<string> = new Set([
+    ...'（「『【〔〈《［｛〘〖‘“'
+  ]);
 
-  private findEdgeBreakingLines(text: string, containerWidth: number, fontSize: number = PROCESSING_CONSTANTS.DEFAULT_FONT_SIZE): number[] {
-    const lines = this.simulateWordWrap(text, containerWidth, fontSize);
-    const suspiciousLines: number[] = [];
+  // 直後の改行を保持する文字（文末の句点類・閉じ括弧）
+  private static readonly BREAK_KEEPING_ENDINGS: ReadonlySet<string> = new Set([
+    ...'。．！？',
+    ...'」』）】〕〉》］｝〙〗'
+  ]);
 
-    lines.forEach((line, index) => {
-      if (line.trim().length > 0) {
-        const estimatedWidth = this.utils.estimateTextWidth(line.trim(), fontSize);
-        const ratio = estimatedWidth / containerWidth;
+  static isLineStartProhibited(char: string): boolean {
+    return KinsokuRules.LINE_START_PROHIBITED.has(char);
+  }
 
-        if (ratio >= this.config.lineBreakThreshold) {
-          suspiciousLines.push(index + 1);
-        }
-      }
-    });
+  static isLineEndProhibited(char: string): boolean {
+    return KinsokuRules.LINE_END_PROHIBITED.has(char);
+  }
 
-    return suspiciousLines;
+  static isBreakKeptAfter(trimmedLine: string): boolean {
+    return trimmedLine.length > 0 && KinsokuRules.BREAK_KEEPING_ENDINGS.has(trimmedLine.slice(-1));
   }
 
-  private countSoftBreaks(text: string): number {
-    let count = 0;
+  // 禁則処理で次の行へ追い出された文字数を返す
+  // 例：「…で\nす。」は「す」が「。」と一緒に追い出されている、「…\n「引用」」は開き括弧が追い出されている
+  static getPushedOutLength(nextLine: string): number {
+    let length = 0;
 
-    for (const softBreakChar of this.config.softBreakChars) {
-      const escapedChar = softBreakChar.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-      const regex = new RegExp(escapedChar, 'g');
-      const occurrences = (text.match(regex) || []).length;
-      count += occurrences;
+    // 行末禁則で追い出された開き括弧
+    while (length < nextLine.length && KinsokuRules.isLineEndProhibited(nextLine[length])) {
+      length++;
     }
-    return count;
+
+    // 行頭禁則文字が続く場合は、その直前の1文字も一緒に追い出されている
+    if (length + 1 < nextLine.length && KinsokuRules.isLineStartProhibited(nextLine[length + 1])) {
+      length++;
+    }
+
+    return length;
   }
+}
 
-  private simulateWordWrap(text: string, containerWidth: number, fontSize: number): string[] {
-    const lines: string[] = [];
-    // 分析時は全ての改行文字（通常の改行とソフト改行）を考慮する
-    const paragraphs = text.split(this.getBreakPattern());
+// 箇条書き・番号付き項目・見出しなど、改行を必ず保持すべき段落を判定する
+class ParagraphClassifier {
+  private static readonly PATTERNS: ReadonlyArray<{ kind: ParagraphKind; pattern: RegExp }> = [
+    // 全角記号は直後の空白なし、半角の - と * は直後に空白がある場合のみ箇条書きとみなす
+    { kind: 'bullet', pattern: /^(?:[・•‐◦▪‣]|[-*](?=\s))/ },
+    { kind: 'circled-number', pattern: /^[①-⑳㉑-㉟㊱-㊿❶-❿➀-➓⓵-⓾]/ },
+    // 「1.5倍」のような小数は除外
+    { kind: 'numbered', pattern: /^(?:[0-9０-９]+[.．](?![0-9０-９])|[0-9０-９]+[)）、]|[(（][0-9０-９]+[)）])/ },
+    { kind: 'lettered', pattern: /^(?:[a-zA-Zａ-ｚＡ-Ｚ][.．)）](?=\s|$)|[(（][a-zA-Zａ-ｚＡ-Ｚ][)）])/ }
+  ];
+
+  private static readonly HEADING_MARKER = /^[■□◆◇▼▽▶▷#＃【［〈]/;
+  private static readonly HEADING_ENCLOSED = /^(?:【[^】]*】|［[^］]*］|〈[^〉]*〉)$/;
+  private static readonly HEADING_COLON = /[:：]$/;
+  private static readonly HEADING_MAX_LENGTH = 30;
+
+  static readonly REASON_LABELS: Readonly<Record<ParagraphKind, string>> = {
+    'body': '本文',
+    'bullet': '箇条書き',
+    'numbered': '番号付き項目',
+    'lettered': '英字付き項目',
+    'circled-number': '丸数字の項目',
+    'heading': '見出し'
+  };
+
+  static classify(line: string): ParagraphKind {
+    const trimmed = line.trim();
+    if (trimmed === '') {
+      return 'body';
+    }
 
-    for (const paragraph of paragraphs) {
-      if (paragraph.trim() === '') {
-        lines.push('');
-        continue;
+    for (const { kind, pattern } of ParagraphClassifier.PATTERNS) {
+      if (pattern.test(trimmed)) {
+        return kind;
       }
+    }
 
-      const words = paragraph.split(/(\s+)/);
-      let currentLine = '';
+    if (trimmed.length <= ParagraphClassifier.HEADING_MAX_LENGTH && (
+      ParagraphClassifier.HEADING_MARKER.test(trimmed) ||
+      ParagraphClassifier.HEADING_ENCLOSED.test(trimmed) ||
+      ParagraphClassifier.HEADING_COLON.test(trimmed)
+    )) {
+      return 'heading';
+    }
 
-      for (const word of words) {
-        const testLine = currentLine + word;
-        const estimatedWidth = this.utils.estimateTextWidth(testLine, fontSize);
+    return 'body';
+  }
 
-        if (estimatedWidth <= containerWidth || currentLine === '') {
-          currentLine = testLine;
-        } else {
-          lines.push(currentLine);
-          currentLine = word;
-        }
-      }
+  // 見出しの後、および項目・見出しの前の改行は保持する
+  static getProtectionReason(currentLine: string, nextLine: string): string | null {
+    const currentKind = ParagraphClassifier.classify(currentLine);
+    if (currentKind === 'heading') {
+      return ParagraphClassifier.REASON_LABELS.heading;
+    }
 
-      if (currentLine !== '') {
-        lines.push(currentLine);
-      }
+    const nextKind = ParagraphClassifier.classify(nextLine);
+    if (nextKind !== 'body') {
+      return ParagraphClassifier.REASON_LABELS[nextKind];
     }
 
-    return lines;
+    return null;
   }
+}
 
+// 行の境界の文字種を判定し、結合時の区切り文字を決める
+class ScriptDetector {
+  // 単語を空白で区切る文字種
+  private static readonly SPACED_SCRIPTS: ReadonlySet<ScriptKind> = new Set<ScriptKind>([
+    'latin', 'cyrillic', 'greek', 'hangul', 'rtl', 'indic', 'digit'
+  ]);
 
+  // 単語間に空白を入れない文字種
+  private static readonly CJK_SCRIPTS: ReadonlySet<ScriptKind> = new Set<ScriptKind>([
+    'han', 'kana', 'cjk-punctuation'
+  ]);
 
-  private generateEstimatedChanges(issues: DetectedIssue[]): string {
-    if (issues.length === 0) {
-      return 'No changes needed';
+  private static readonly CJK_LATIN_SPACED = /[\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF][ \u3000][A-Za-z0-9]|[A-Za-z0-9][ \u3000][\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF]/g;
+  private static readonly CJK_LATIN_ADJACENT = /[\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF][A-Za-z0-9]|[A-Za-z0-9][\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF]/g;
+
+  static detect(codePoint: number): ScriptKind {
+    if (codePoint >= 0x30 && codePoint <= 0x39) return 'digit';
+    if ((codePoint >= 0x41 && codePoint <= 0x5A) || (codePoint >= 0x61 && codePoint <= 0x7A)) return 'latin';
+    if (codePoint <= 0x7F) return 'latin-punctuation';
+    // ラテン1補助・拡張A/B・IPA・ベトナム語などの拡張追加
+    if ((codePoint >= 0xC0 && codePoint <= 0x24F) || (codePoint >= 0x1E00 && codePoint <= 0x1EFF)) {
+      return codePoint === 0xD7 || codePoint === 0xF7 ? 'latin-punctuation' : 'latin';
     }
+    if (codePoint <= 0xBF) return 'latin-punctuation';
+    if (codePoint >= 0x0370 && codePoint <= 0x03FF) return 'greek';
+    if (codePoint >= 0x0400 && codePoint <= 0x052F) return 'cyrillic';
+    if (codePoint >= 0x0E00 && codePoint <= 0x0E7F) return 'thai';
+    // ヘブライ文字・アラビア文字・シリア文字・ターナ文字・ンコ文字と、その表示形
+    if (
+      (codePoint >= 0x0590 && codePoint <= 0x08FF) ||
+      (codePoint >= 0xFB1D && codePoint <= 0xFDFF) ||
+      (codePoint >= 0xFE70 && codePoint <= 0xFEFC)
+    ) return 'rtl';
+    // デーヴァナーガリー〜シンハラ文字
+    if (codePoint >= 0x0900 && codePoint <= 0x0DFF) return 'indic';
+    if (
+      (codePoint >= 0xAC00 && codePoint <= 0xD7AF) ||
+      (codePoint >= 0x1100 && codePoint <= 0x11FF) ||
+      (codePoint >= 0x3130 && codePoint <= 0x318F)
+    ) return 'hangul';
+    if ((codePoint >= 0x3040 && codePoint <= 0x30FF) || (codePoint >= 0x31F0 && codePoint <= 0x31FF) ||
+      (codePoint >= 0xFF66 && codePoint <= 0xFF9F)) return 'kana';
+    if (
+      (codePoint >= 0x3400 && codePoint <= 0x4DBF) ||
+      (codePoint >= 0x4E00 && codePoint <= 0x9FFF) ||
+      (codePoint >= 0xF900 && codePoint <= 0xFAFF) ||
+      (codePoint >= 0x20000 && codePoint <= 0x3FFFF)
+    ) return 'han';
+    if ((codePoint >= 0x3000 && codePoint <= 0x303F) || (codePoint >= 0xFF00 && codePoint <= 0xFF65)) {
+      return 'cjk-punctuation';
+    }
+    if (codePoint >= 0x2000 && codePoint <= 0x206F) return 'latin-punctuation';
+    return 'other';
+  }
 
-    const changeTypes = new Set<string>();
+  static detectFirst(text: string): ScriptKind {
+    const codePoint = text.codePointAt(0);
+    return codePoint === undefined ? 'other' : ScriptDetector.detect(codePoint);
+  }
 
-    issues.forEach(issue => {
-      switch (issue.type) {
-        case 'auto-width':
-          changeTypes.add('幅＆改行');
-          break;
-        case 'edge-breaking':
-          changeTypes.add('改行');
-          break;
-        case 'soft-break':
-          changeTypes.add('ソフト改行');
-          break;
-      }
-    });
+  static detectLast(text: string): ScriptKind {
+    if (text.length === 0) return 'other';
+    const lastCode = text.charCodeAt(text.length - 1);
+    // 末尾がサロゲートペアの下位の場合は上位から読む
+    const index = lastCode >= 0xDC00 && lastCode <= 0xDFFF && text.length >= 2 ? text.length - 2 : text.length - 1;
+    return ScriptDetector.detect(text.codePointAt(index)!);
+  }
 
-    return Array.from(changeTypes).join(', ');
+  // 日本語・中国語と英数字の間に空白を入れる書き方かを、テキスト内の既存の表記から判定
+  static usesCjkLatinSpacing(text: string): boolean {
+    const spaced = (text.match(ScriptDetector.CJK_LATIN_SPACED) || []).length;
+    const adjacent = (text.match(ScriptDetector.CJK_LATIN_ADJACENT) || []).length;
+    return spaced > 0 && spaced >= adjacent;
   }
 
-  private hasBreakCharacters(text: string): boolean {
-    // 通常の改行文字をチェック
-    if (text.includes('\n')) {
-      return true;
+  // 行末・行頭の文字種の組み合わせから結合時の区切り文字を返す
+  static getJoinSeparator(line1: string, line2: string, cjkLatinSpacing: boolean): string {
+    const endScript = ScriptDetector.detectLast(line1);
+    const startScript = ScriptDetector.detectFirst(line2);
+    const isSpaced = (script: ScriptKind) => ScriptDetector.SPACED_SCRIPTS.has(script);
+    const isCjk = (script: ScriptKind) => ScriptDetector.CJK_SCRIPTS.has(script);
+
+    // 「infor-」「and/」のように語の途中で切れたハイフン・スラッシュの後は詰めて結合する（「A -」のような空白の後のダッシュは除く）
+    if (/[^\s][-\u2010/]$/.test(line1)) {
+      return '';
     }
 
-    // ソフト改行文字をチェック
-    for (const softBreakChar of this.config.softBreakChars) {
-      if (text.includes(softBreakChar)) {
-        return true;
-      }
+    if (isSpaced(endScript) && isSpaced(startScript)) {
+      return ' ';
     }
 
-    return false;
-  }
+    // 「see」「(Figure 1)」のように英数字の後に開き括弧・引用符が続く場合は空白で区切る
+    if (/[A-Za-z0-9\u00C0-\u024F]$/.test(line1) && /^[([{"'\u201C\u2018\u00AB]/.test(line2)) {
+      return ' ';
+    }
 
-  findTextNodes(ignoreMinCharacters: boolean = false): TextNode[] {
-    const selection = figma.currentPage.selection;
+    // 「Hello,」「Привет.」のような欧文句読点の後は空白で区切る
+    if (endScript === 'latin-punctuation' && isSpaced(startScript) && !isCjk(ScriptDetector.detectFirst(line1))) {
+      return ' ';
+    }
 
-    if (selection.length > 0) {
-      const textNodes: TextNode[] = [];
+    // 日本語・中国語と英数字の境界は、テキスト内の既存の表記に合わせる
+    if ((isCjk(endScript) && isSpaced(startScript)) || (isSpaced(endScript) && isCjk(startScript))) {
+      const involvesPunctuation = endScript === 'cjk-punctuation' || startScript === 'cjk-punctuation';
+      return cjkLatinSpacing && !involvesPunctuation ? ' ' : '';
+    }
 
-      for (const selectedNode of selection) {
-        if (selectedNode.type === 'TEXT') {
-          const minCharCheck = ignoreMinCharacters || selectedNode.characters.length >= this.config.minCharacters;
-          if (!selectedNode.locked && selectedNode.visible && minCharCheck) {
-            textNodes.push(selectedNode);
-          }
-        } else {
-          if ('findAll' in selectedNode) {
-            const childTextNodes = selectedNode.findAll((node: SceneNode) => {
-              if (node.type !== 'TEXT') return false;
-              const textNode = node as TextNode;
-              const minCharCheck = ignoreMinCharacters || textNode.characters.length >= this.config.minCharacters;
-              return !textNode.locked &&
-                textNode.visible &&
-                minCharCheck;
-            }) as TextNode[];
+    return '';
+  }
+}
 
-            textNodes.push(...childTextNodes);
-          }
-        }
-      }
+// 行末ハイフンの解消に使う英単語リスト。行をまたいで分割されやすい長めの語と、複合語の構成要素になりやすい短い語を収録
+// 語形変化（-s・-ed・-ing など）は Dehyphenator 側で原形に戻して照合するため、原形のみを載せる
+const ENGLISH_WORD_LIST = `
+a able about above absolute absolutely abstract academic accept acceptable access accessible accessibility
+accident accompany accomplish according account accurate achieve achievement acknowledge acquire across act
+action active activity actual actually adapt add addition additional address adequate adjust adjustment
+administration administrator admit adopt adult advance advanced advantage adventure advertise advertisement
+advice advise affect afford after afternoon again against age agency agenda agent ago agree agreement ahead
+aim air algorithm align alignment all allow almost alone along already also alternative although always
+among amount analysis analyst analytics analyze ancient and angle animal animation announce announcement
+annual another answer anti anticipate anxiety any anybody anyone anything anyway anywhere apart app apparent
+apparently appeal appear appearance application apply appoint appointment appreciate approach appropriate
+approval approve approximately architecture area argue argument arise around arrange arrangement arrival
+arrive art article artificial artist as aside ask aspect assess assessment asset assign assignment assist
+assistance assistant associate association assume assumption at atmosphere attach attachment attack attempt
+attend attention attitude attract attractive attribute audience audio author authority automatic
+automatically automation availability available average avoid await award aware awareness away
+back background backup bad balance ball band bank bar base basic basically basis battery be bear beautiful
+beauty because become bed before begin beginning behalf behave behavior behind being belief believe belong
+below benefit best better between beyond big bill billion bit black block blog blue board body book border
+both bottom boundary box brand break breakfast bridge brief bright bring broad broadcast brother browser
+budget build building built business busy but button buy by
+cache calculate calculation calendar call camera campaign can cancel candidate capability capable capacity
+capital caption card care career careful carefully carry case cash catalog catch category cause cell center
+central century certain certainly chain chair challenge chance change channel chapter character characteristic
+charge chart check checkout chief child choice choose circle circumstance citizen city civil claim class
+classic classification classify clean clear clearly click client climate close cloud club co code
+collaborate collaboration colleague collect collection collective college color column combination combine
+come comfort comfortable command comment commercial commission commit commitment committee common communicate
+communication community company compare comparison compatible compete competition competitive competitor
+complain complaint complete completely complex complexity compliance complicated component compose
+composition comprehensive compute computer concentrate concentration concept concern conclude conclusion
+condition conduct conference confidence confident configuration configure confirm confirmation conflict
+connect connection consequence consider considerable consideration consist consistent constant constantly
+constraint construct construction consult consultant consume consumer contact contain container content
+context continue continuous contract contrast contribute contribution control convenient conversation
+conversion convert cooperate cooperation cooperative coordinate coordination copy core corner corporate
+corporation correct correspond cost could council count country couple course court cover create creation
+creative creativity creator credit crisis criteria critical cross crowd cultural culture currency current
+currently curve custom customer customize cut cycle
+daily damage dark dashboard data database date daughter day dead deal dear debate decade decide decision
+declare decline decrease dedicate deep default defend define definitely definition degree delay delete
+deliver delivery demand demonstrate department depend dependent deploy deployment deposit describe
+description design designer desire desk desktop despite destination detail detect determine develop
+developer development device dialog dialogue differ difference different differently difficult difficulty
+digital dimension direct direction directly director disappear discover discovery discuss discussion
+display distance distinct distinguish distribute distribution district divide division do document
+documentation domain dominant door double down download draft drag draw drawing dream drive driven driver
+drop due during duty dynamic
+each early earn earth easily east easy economic economy edge edit edition editor education educational
+effect effective effectively efficiency efficient effort either elect election electric electronic element
+eliminate else elsewhere email embed emerge emergency emotion emotional emphasis emphasize employ employee
+employer employment empty enable encounter encourage end enemy energy engage engagement engine engineer
+engineering enhance enjoy enough ensure enter enterprise entertainment entire entirely entity entry
+environment environmental episode equal equally equipment equivalent error especially essential establish
+establishment estimate evaluate evaluation even evening event eventually ever every everybody everyday
+everyone everything everywhere evidence evolution evolve exact exactly examine example exceed excellent
+except exception exchange exciting exclude exclusive execute execution executive exercise exhibit exhibition
+exist existence existing expand expansion expect expectation expense expensive experience experiment expert
+explain explanation explore export expose exposure express expression extend extension extensive extent
+external extra extract extraordinary extreme extremely eye
+face facility fact factor fail failure fair fall familiar family famous far fashion fast father fault
+favorite feature fee feedback feel feeling few field figure file fill filter final finally finance financial
+find finding fine finish fire firm first fit fix flat flexible flight floor flow focus folder follow
+following font food foot for force foreign forest forget form format former formula forward foundation
+frame framework free freedom frequency frequent frequently fresh friend friendly from front full fully fun
+function functional functionality fund fundamental funding further future
+gain gallery game gap garden gather general generally generate generation generous gentle get give global
+go goal good govern government grade gradually graduate grant graph graphic great green grid ground group
+grow growth guarantee guard guess guest guidance guide guideline
+habit half hand handle hang happen happy hard hardware have he head header heading health healthy hear heart
+heavy height hello help helpful her here hidden hide high highlight highly him himself his historical
+history hit hold holiday home homepage hope horizontal hospital host hot hotel hour house household how
+however huge human hundred
+icon idea ideal identical identification identify identity if ignore illustrate illustration image imagine
+immediate immediately impact implement implementation implication imply import importance important
+impossible impress impression impressive improve improvement in include including income incorporate
+increase increasingly incredible indeed independent index indicate indication indicator individual industry
+influence inform information infrastructure initial initially initiative inner innovation innovative input
+inside insight inspect inspiration install installation instance instead institution instruction
+instrument insurance integrate integration intelligence intelligent intend intention interaction interactive
+interest interesting interface internal international internet interpret interpretation interval interview
+into introduce introduction invest investigate investigation investment investor invitation invite involve
+issue it item its itself
+job join joint journal journey judge judgment just justify
+keep key keyboard kid kind kitchen know knowledge known
+label labor lack land landscape language large largely last late later latest launch law layer layout lead
+leader leadership learn learning least leave left legal length less lesson let letter level library license
+life light like likely limit limitation line link list listen literature little live local locate location
+lock log logic logical login long look loss lot love low
+machine magazine main mainly maintain maintenance major majority make manage management manager manner
+manual manufacture manufacturer many map margin mark market marketing master match material matter maximum
+may maybe me mean meaning meanwhile measure measurement media medical medium meet meeting member membership
+memory mental mention menu merchant message metal method middle might mind minimum minister minute mirror
+miss mission mistake mix mobile mode model moderate modern modify module moment money monitor month mood
+more moreover morning most mostly mother motion motivation move movement much multi multiple music must
+my myself
+name narrative narrow nation national native natural naturally nature navigate navigation near nearly
+necessarily necessary need negative negotiate negotiation neighbor neither network never nevertheless new
+news newsletter next nice night no nobody node non none nor normal normally north not note notebook nothing
+notice notification notify novel now number numerous
+object objective obligation observation observe obtain obvious obviously occasion occur of off offer office
+officer official often old on once one ongoing online only onto open operate operation operational operator
+opinion opportunity oppose opposite optimal optimization optimize option or order ordinary organization
+organize orientation oriented origin original other otherwise our ourselves out outcome outline output
+outside over overall overview own owner ownership
+pace package page pain paint pair panel paper paragraph parameter parent park part participant participate
+participation particular particularly partner partnership party pass passage passenger password past path
+pattern pay payment peace people per perceive percent percentage perception perfect perfectly perform
+performance perhaps period permanent permission permit person personal personality personally perspective
+phase phone photo photograph phrase physical pick picture piece pixel place plan planning platform play
+player please pleasure plenty plugin point policy political politics pool poor popular population portfolio
+portion position positive possess possibility possible possibly post potential potentially power powerful
+practical practice pre precise predict prediction prefer preference premium preparation prepare presence
+present presentation preserve president press pressure pretty prevent preview previous previously price
+primary principle print prior priority privacy private pro probably problem procedure proceed process
+produce producer product production profession professional profile profit program programming progress
+project promise promote promotion proof proper properly property proportion proposal propose prospect
+protect protection prototype proud prove provide provider province public publication publish pull purchase
+purpose push put
+qualify quality quantity quarter question quick quickly quiet quite quote
+race radio raise random range rank rapid rapidly rare rate rather ratio re reach react reaction read reader
+readily reading ready real realistic reality realize really reason reasonable receive recent recently
+recognition recognize recommend recommendation record recover recovery reduce reduction refer reference
+reflect reflection reform refresh regard regarding region regional register registration regular regularly
+regulation reject relate relation relationship relative relatively release relevant reliable relief rely
+remain remaining remarkable remember remind remote remove render repeat replace reply report represent
+representation representative reputation request require requirement research researcher reservation reserve
+resident resolution resolve resource respect respond response responsibility responsible rest restaurant
+restore restrict restriction result retain retire return reveal revenue reverse review revision reward rich
+right rise risk road role room root round route routine row rule run
+safe safety sale same sample satisfaction satisfy save say scale scenario scene schedule scheme school
+science scientific scientist scope score screen script scroll search season seat second secondary section
+sector secure security see seek seem segment select selection self sell send senior sense sensitive
+sentence separate separately sequence series serious serve server service session set setting settle setup
+several severe shape share sharp she shift shop shopping short shortly should show side sign signal
+significance significant significantly silver similar similarly simple simply since single site situation
+size skill slide slight slightly slow small smart so social society software solid solution solve some
+somebody somehow someone something sometimes somewhat somewhere son song soon sort sound source south space
+speak speaker special specialist specific specifically specify speech speed spend split sport spot spread
+square stable staff stage stand standard star start state statement station statistics status stay step
+still stock stop storage store story strategic strategy stream street strength stress stretch strict strike
+string strong strongly structure student studio study stuff style subject submit subscribe subscription
+subsequent substantial succeed success successful successfully such sudden suddenly suffer sufficient
+suggest suggestion suit suitable summary summer supply support supporter suppose sure surface surprise
+surround survey survive sustain sustainable switch symbol sync system
+table tablet tag take talent talk target task taste tax teach teacher team technical technique technology
+telephone television tell temperature template temporary tend tendency term terms terrible test text than
+thank that the their them theme themselves then theory there therefore these they thing think third this
+those though thought thousand threat three threshold through throughout thus ticket time timeline tiny
+title to today together token tomorrow tone tonight too tool top topic total totally touch tour toward
+track trade tradition traditional traffic train training transaction transfer transform transformation
+transition translate translation transport travel treat treatment tree trend trial trigger trip trouble true
+truly trust truth try turn tutorial twice two type typical typically typography
+ultimate ultimately unable under undergo understand understanding unfortunately uniform union unique unit
+united universal university unless unlike unlikely until unusual up update upgrade upload upon upper urban
+us usage use useful user usual usually utility
+valid validate validation valuable value variable variation variety various vary vast vehicle vendor
+version versus vertical very via video view viewer village virtual visible vision visit visitor visual
+vital voice volume volunteer vote
+wait walk wall want warm warning wash watch water way we weak wealth wear weather web website week weekend
+weekly weight welcome well west what whatever wheel when whenever where whereas wherever whether which while
+white who whole whom whose why wide widely width wife will willing win window winner winter wish with
+withdraw within without woman wonder wonderful word work worker workflow working workshop world worldwide
+worry worth would write writer writing wrong
+yard yeah year yellow yes yesterday yet you young your yourself youth
+zero zone
+`;
+
+// 行末のハイフンで分割された英単語を、単語リストをもとに結合するか複合語として残すか判定する
+class Dehyphenator {
+  private static words: Set<string> | null = null;
+
+  // 語形変化した語は接尾辞を外して原形で照合する
+  private static readonly SUFFIXES = ['ing', 'ed', 'es', 's', 'er', 'est', 'ly', 'ness', 'ment'];
+
+  private static readonly SOFT_HYPHEN = '\u00AD';
+  private static readonly LINE_END_HYPHEN = /([A-Za-z]+)[-\u2010]$/;
+  private static readonly LOWERCASE_START = /^[a-z]+/;
+
+  // 行末がソフトハイフン、またはハイフンの直後の行が小文字で始まる場合のみ判定する
+  static decide(line1: string, line2: string): DehyphenationKind | null {
+    if (line1.endsWith(Dehyphenator.SOFT_HYPHEN)) {
+      return 'soft-hyphen';
+    }
 
-      return textNodes;
+    const prefixMatch = line1.match(Dehyphenator.LINE_END_HYPHEN);
+    const suffixMatch = line2.match(Dehyphenator.LOWERCASE_START);
+    if (!prefixMatch || !suffixMatch) {
+      return null;
     }
 
-    return figma.currentPage.findAll(node => {
-      if (node.type !== 'TEXT') return false;
-      const textNode = node as TextNode;
-      const minCharCheck = ignoreMinCharacters || textNode.characters.length >= this.config.minCharacters;
-      return !textNode.locked &&
-        textNode.visible &&
-        minCharCheck;
-    }) as TextNode[];
-  }
-}//
-// ===== TEXT PROCESSOR CLASS =====
-class TextProcessor {
-  private config: ProcessingConfig;
-  private utils: SharedUtilities;
+    const prefix = prefixMatch[1];
+    const suffix = suffixMatch[0];
 
-  constructor(config: ProcessingConfig, utils: SharedUtilities) {
-    this.config = config;
-    this.utils = utils;
+    // 結合した語が単語リストにあれば、改行位置で分割された語とみなす（notebook など）
+    if (Dehyphenator.isKnownWord(prefix + suffix)) {
+      return 'joined';
+    }
+
+    // それ以外は複合語としてハイフンを残す（well-known、x-ray、e-commerce など）
+    // 単語リストで判定できない語から、入力された文字を削除しないようにする
+    return 'compound';
   }
 
-  private getBreakPattern(): RegExp {
-    return this.utils.getBreakPattern(this.config.softBreakChars);
+  // 判定に従って2行を結合する（判定対象外なら null）
+  static join(line1: string, line2: string): string | null {
+    switch (Dehyphenator.decide(line1, line2)) {
+      case 'soft-hyphen':
+      case 'joined':
+        return line1.slice(0, -1) + line2;
+      case 'compound':
+        return line1 + line2;
+      default:
+        return null;
+    }
   }
 
-  generateChanges(originalText: string, issues: DetectedIssue[], node: TextNode): ProcessingChanges {
-    const changes: ProcessingChanges = {};
-    let processedText = originalText;
+  static isKnownWord(word: string): boolean {
+    const words = Dehyphenator.getWords();
+    const lower = word.toLowerCase();
+    if (words.has(lower)) {
+      return true;
+    }
 
-    const fontSize = SharedUtilities.getFontSize(node);
+    for (const suffix of Dehyphenator.SUFFIXES) {
+      if (!lower.endsWith(suffix) || lower.length - suffix.length < 2) continue;
 
-    if (node.textAutoResize === 'WIDTH_AND_HEIGHT') {
-      changes.newAutoResize = 'HEIGHT';
-      processedText = this.removeLineBreaksJapanesePriority(processedText, node.width, fontSize);
-    } else {
-      for (const issue of issues) {
-        switch (issue.type) {
-          case 'auto-width':
-            changes.newAutoResize = 'HEIGHT';
-            processedText = this.removeLineBreaksJapanesePriority(processedText, node.width, fontSize);
-            break;
-          case 'edge-breaking':
-            processedText = this.removeLineBreaksJapanesePriority(processedText, node.width, fontSize);
-            break;
-          case 'soft-break':
-            processedText = this.convertSoftBreaksToHard(processedText);
-            break;
-        }
+      const stem = lower.slice(0, -suffix.length);
+      const candidates = [stem, stem + 'e'];
+      // studies → study、running → run
+      if (stem.endsWith('i')) {
+        candidates.push(stem.slice(0, -1) + 'y');
+      }
+      if (stem.length >= 3 && stem.charAt(stem.length - 1) === stem.charAt(stem.length - 2)) {
+        candidates.push(stem.slice(0, -1));
       }
-    }
 
-    if (processedText !== originalText) {
-      changes.newText = processedText;
+      if (candidates.some(candidate => words.has(candidate))) {
+        return true;
+      }
     }
 
-    return changes;
+    return false;
   }
 
-  private removeLineBreaksJapanesePriority(
-    text: string,
-    containerWidth: number = PROCESSING_CONSTANTS.DEFAULT_CONTAINER_WIDTH,
-    fontSize: number = PROCESSING_CONSTANTS.DEFAULT_FONT_SIZE,
-    ignoreMinCharacters: boolean = false
-  ): string {
-    if (!ignoreMinCharacters && text.length < this.config.minCharacters) {
-      return text;
+  // 単語リストは初回の判定時に展開する
+  private static getWords(): Set<string> {
+    if (!Dehyphenator.words) {
+      Dehyphenator.words = new Set(ENGLISH_WORD_LIST.split(/\s+/).filter(word => word.length > 0));
     }
+    return Dehyphenator.words;
+  }
+}
 
-    // 通常の改行文字（\n）のみを処理対象とする
-    // ソフト改行文字は元のまま保持し、convertSoftBreaksオプションで別途処理される
-    const lines = text.split('\n');
-    const shouldBreakAfter: boolean[] = [];
+// 行幅・句読点・次の行の先頭文字・行の長さの揃い方から、改行が不要である確信度を求める
+class BreakConfidenceScorer {
+  private static readonly WEIGHTS = { width: 0.4, punctuation: 0.2, nextLine: 0.2, uniformity: 0.2 };
+  private static readonly SOFT_BREAK_CONFIDENCE = 0.9;
+  private static readonly RULE_BREAK_CONFIDENCE = 0.9;
+  private static readonly SENTENCE_ENDINGS = /[.!?:;。．！？：；]$/;
 
-    for (let i = 0; i < lines.length; i++) {
-      const currentLine = lines[i];
-      const currentTrimmed = currentLine.trim();
+  // 改行ごとの確信度の平均
+  static score(breaks: MeasuredBreak[], threshold: number): number {
+    if (breaks.length === 0) return 0;
 
-      if (i === lines.length - 1) {
-        shouldBreakAfter[i] = true;
-        continue;
-      }
+    const uniformity = BreakConfidenceScorer.getUniformity(breaks.map(item => item.widthRatio));
+    const total = breaks.reduce((sum, item) => sum + BreakConfidenceScorer.scoreBreak(item, threshold, uniformity), 0);
 
-      if (/[。．！？]$/.test(currentTrimmed)) {
-        shouldBreakAfter[i] = true;
-      } else {
-        const estimatedWidth = this.utils.estimateTextWidth(currentTrimmed, fontSize);
-        const widthRatio = estimatedWidth / containerWidth;
+    return Math.round(total / breaks.length * 100) / 100;
+  }
 
-        if (widthRatio >= this.config.lineBreakThreshold) {
-          shouldBreakAfter[i] = false;  // 幅が閾値以上なら改行を削除
-        } else {
-          shouldBreakAfter[i] = true;   // 幅が閾値未満なら改行を保持
-        }
-      }
-    }
+  static getSoftBreakConfidence(): number {
+    return BreakConfidenceScorer.SOFT_BREAK_CONFIDENCE;
+  }
 
-    const result: string[] = [];
-    let currentCombined = '';
+  // ユーザーが明示したルールによる削除は、幅による判定より確かなものとして扱う
+  static getRuleBreakConfidence(): number {
+    return BreakConfidenceScorer.RULE_BREAK_CONFIDENCE;
+  }
 
-    for (let i = 0; i < lines.length; i++) {
-      if (currentCombined === '') {
-        currentCombined = lines[i];
-      } else {
-        currentCombined = this.combineLines(currentCombined, lines[i]);
-      }
+  static getUniformity(ratios: number[]): number {
+    const measured = ratios.filter(ratio => ratio > 0);
+    if (measured.length < 2) return 0.5;
 
-      if (shouldBreakAfter[i]) {
-        result.push(currentCombined);
-        currentCombined = '';
-      }
-    }
+    const mean = measured.reduce((sum, ratio) => sum + ratio, 0) / measured.length;
+    const variance = measured.reduce((sum, ratio) => sum + (ratio - mean) ** 2, 0) / measured.length;
 
-    return result.join('\n');
+    return Math.max(0, 1 - Math.sqrt(variance) / mean * 2);
   }
 
-  private combineLines(line1: string, line2: string): string {
-    const trimmed1 = line1.replace(/\s+$/, '');
-    const trimmed2 = line2.replace(/^\s+/, '');
+  static endsSentence(line: string): boolean {
+    return BreakConfidenceScorer.SENTENCE_ENDINGS.test(line.trim()) || KinsokuRules.isBreakKeptAfter(line.trim());
+  }
 
-    if (!trimmed1 || !trimmed2) {
-      return trimmed1 + trimmed2;
-    }
+  private static scoreBreak(item: MeasuredBreak, threshold: number, uniformity: number): number {
+    const { WEIGHTS } = BreakConfidenceScorer;
 
-    const line1End = trimmed1.slice(-1);
-    const line2Start = trimmed2.slice(0, 1);
+    // 閾値で 0.5、右端いっぱいで 1 になるよう線形に対応させる
+    const widthScore = item.widthRatio >= 1
+      ? 1
+      : Math.max(0, 0.5 + (item.widthRatio - threshold) / Math.max(1 - threshold, 0.01) * 0.5);
 
-    if (this.isAlphanumeric(line1End) && this.isAlphanumeric(line2Start)) {
-      return trimmed1 + ' ' + trimmed2;
-    }
+    const punctuationScore = BreakConfidenceScorer.endsSentence(item.lineBefore) ? 0.1 : 1;
 
-    return trimmed1 + trimmed2;
+    return WEIGHTS.width * Math.min(widthScore, 1) +
+      WEIGHTS.punctuation * punctuationScore +
+      WEIGHTS.nextLine * BreakConfidenceScorer.scoreNextLine(item.lineAfter.trim()) +
+      WEIGHTS.uniformity * uniformity;
   }
 
-  private isAlphanumeric(char: string): boolean {
-    if (!char) return false;
-    return /^[a-zA-Z0-9]$/.test(char);
+  // 文の途中で折り返された行ほど、次の行は小文字・行頭禁則文字・かなで始まる
+  private static scoreNextLine(nextLine: string): number {
+    if (nextLine.length === 0 || ParagraphClassifier.classify(nextLine) !== 'body') return 0;
+
+    const first = nextLine[0];
+    if (KinsokuRules.isLineStartProhibited(first) || /[a-z]/.test(first)) return 1;
+
+    const script = ScriptDetector.detectFirst(nextLine);
+    if (script === 'kana' || script === 'han' || script === 'hangul' || script === 'thai') return 0.8;
+    if (/[A-Z0-9]/.test(first)) return 0.4;
+    return 0.6;
   }
+}
 
-  private convertSoftBreaksToHard(text: string): string {
-    let result = text;
+// ユーザー定義の改行ルールを検証・コンパイルし、改行ごとに最初に一致したルールを返す
+class BreakRuleSet {
+  private rules: { rule: BreakRule; lineEnd: RegExp | null; nextLineStart: RegExp | null }[] = [];
 
-    for (const softBreakChar of this.config.softBreakChars) {
-      result = result.replace(new RegExp(softBreakChar, 'g'), '\n');
+  constructor(rules: BreakRule[] = []) {
+    for (const rule of rules) {
+      if (rule.enabled === false || BreakRuleSet.validate(rule) !== null) {
+        continue;
+      }
+      this.rules.push({
+        rule,
+        lineEnd: rule.lineEndPattern ? new RegExp(`(?:${rule.lineEndPattern})$`, 'u') : null,
+        nextLineStart: rule.nextLineStartPattern ? new RegExp(`^(?:${rule.nextLineStartPattern})`, 'u') : null
+      });
     }
+  }
 
-    return result;
+  // 問題がなければ null、あればエラーメッセージを返す
+  static validate(rule: BreakRule): string | null {
+    if (!rule || typeof rule !== 'object') {
+      return 'ルールの形式が正しくありません';
+    }
+    if (!rule.lineEndPattern && !rule.nextLineStartPattern) {
+      return '行末または次の行頭のパターンを指定してください';
+    }
+    if (!['keep', 'remove', 'join'].includes(rule.action)) {
+      return `不明なアクションです: ${rule.action}`;
+    }
+    if (rule.action === 'join' && typeof rule.separator !== 'string') {
+      return '区切り文字を指定してください';
+    }
+
+    for (const pattern of [rule.lineEndPattern, rule.nextLineStartPattern]) {
+      if (!pattern) continue;
+      try {
+        new RegExp(pattern, 'u');
+      } catch {
+        return `正規表現が正しくありません: ${pattern}`;
+      }
+    }
+
+    return null;
   }
 
-  // パブリックメソッド：外部からの直接処理用
-  public processTextDirectly(
-    text: string,
-    containerWidth: number,
-    fontSize: number,
-    options: {
-      removeLineBreaks?: boolean;
-      convertSoftBreaks?: boolean;
+  match(currentLine: string, nextLine: string): BreakRule | null {
+    const currentTrimmed = currentLine.trim();
+    const nextTrimmed = nextLine.trim();
+
+    for (const { rule, lineEnd, nextLineStart } of this.rules) {
+      if (lineEnd && !lineEnd.test(currentTrimmed)) continue;
+      if (nextLineStart && !nextLineStart.test(nextTrimmed)) continue;
+      return rule;
     }
-  ): string {
-    let processedText = text;
 
-    if (options.removeLineBreaks) {
-      processedText = this.removeLineBreaksJapanesePriority(processedText, containerWidth, fontSize, true);
+    return null;
+  }
+}
+
+// 「このテキストは触らない」指定の読み書き（プラグインデータとレイヤー名で判定）
+class IgnoreMarkers {
+  // ノード自身から祖先へたどり、最初に見つかった指定を返す
+  static find(node: SceneNode): IgnoreMarkerInfo | null {
+    let current: BaseNode | null = node;
+
+    while (current && current.type !== 'PAGE' && current.type !== 'DOCUMENT') {
+      const isSelf = current.id === node.id;
+
+      if (current.getPluginData(PROCESSING_CONSTANTS.PLUGIN_DATA_KEYS.IGNORE) !== '') {
+        return { source: isSelf ? 'node' : 'frame', markerNodeId: current.id, markerName: current.name };
+      }
+      if (current.name.trim().endsWith(PROCESSING_CONSTANTS.IGNORE_LAYER_NAME_SUFFIX)) {
+        return { source: 'layer-name', markerNodeId: current.id, markerName: current.name };
+      }
+
+      current = current.parent;
     }
 
-    if (options.convertSoftBreaks) {
-      processedText = this.convertSoftBreaksToHard(processedText);
+    return null;
+  }
+
+  static setIgnored(node: SceneNode, ignored: boolean): void {
+    node.setPluginData(PROCESSING_CONSTANTS.PLUGIN_DATA_KEYS.IGNORE, ignored ? String(Date.now()) : '');
+  }
+}
+
+class RegexPatternCache {
+  private cache: Map<string, RegExp> = new Map();
+  private readonly maxSize: number = 10;
+
+  getBreakPattern(softBreakChars: string[]): RegExp {
+    const allBreakChars = ['\n', ...softBreakChars];
+    const cacheKey = allBreakChars.join('|');
+
+    if (!this.cache.has(cacheKey)) {
+      // 正規表現の特殊文字を正しくエスケープ
+      const escapedChars = allBreakChars.map(char =>
+        char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      );
+      const pattern = new RegExp(`[${escapedChars.join('')}]`);
+      this.cache.set(cacheKey, pattern);
+
+      // キャッシュサイズ制限（メモリリーク防止）
+      if (this.cache.size > this.maxSize) {
+        const firstKey = this.cache.keys().next().value;
+        if (firstKey) {
+          this.cache.delete(firstKey);
+        }
+      }
     }
 
-    return processedText;
+    return this.cache.get(cacheKey)!;
   }
 }
 
-// ===== FONT MANAGER CLASS =====
-class FontManager {
-  private loadedFonts: Set<string> = new Set();
+// ===== TEXT ANALYZER CLASS =====
+class TextAnalyzer {
+  private config: ProcessingConfig;
+  private utils: SharedUtilities;
+  private breakRules: BreakRuleSet;
 
-  checkMissingFonts(nodes: TextNode[]): TextNode[] {
-    return nodes.filter(node => node.hasMissingFont);
+  constructor(config: ProcessingConfig, utils: SharedUtilities) {
+    this.config = config;
+    this.utils = utils;
+    this.breakRules = new BreakRuleSet(config.breakRules);
   }
 
-  async loadNodeFonts(node: TextNode): Promise<void> {
-    if (node.hasMissingFont) {
-      throw new Error(`Cannot load missing font for node: ${node.name}`);
+  private getBreakPattern(): RegExp {
+    return this.utils.getBreakPattern(this.config.softBreakChars);
+  }
+
+  async analyzeTextNode(node: TextNode): Promise<TextAnalysisResult> {
+    const issues: DetectedIssue[] = [];
+
+    const ignored = IgnoreMarkers.find(node);
+    if (ignored) {
+      return {
+        node,
+        issues: [],
+        estimatedChanges: 'Skipped (ignored)',
+        originalText: node.characters,
+        ignored
+      };
     }
 
-    if (node.fontName !== figma.mixed) {
-      await this.loadFont(node.fontName);
-    } else {
-      const fontNames = node.getRangeAllFontNames(0, node.characters.length);
-      for (const fontName of fontNames) {
-        await this.loadFont(fontName);
-      }
+    if (node.locked || !node.visible) {
+      return {
+        node,
+        issues: [],
+        estimatedChanges: 'Skipped (locked or hidden)',
+        originalText: node.characters
+      };
     }
-  }
 
-  private async loadFont(fontName: FontName): Promise<void> {
-    const fontKey = `${fontName.family}-${fontName.style}`;
+    const currentText = node.characters;
 
-    if (this.loadedFonts.has(fontKey)) {
-      return;
+    if (currentText.length < this.config.minCharacters) {
+      return {
+        node,
+        issues: [],
+        estimatedChanges: 'Skipped (too short)',
+        originalText: currentText
+      };
+    }
+
+    // 改行文字やソフト改行文字を含まないテキストは除外
+    if (!this.hasBreakCharacters(currentText)) {
+      return {
+        node,
+        issues: [],
+        estimatedChanges: 'Skipped (no line breaks)',
+        originalText: currentText
+      };
+    }
+
+    const autoWidthIssues = await this.detectAutoWidthIssues(node);
+    issues.push(...autoWidthIssues);
+
+    const edgeBreakingIssues = await this.detectEdgeBreaking(node);
+    issues.push(...edgeBreakingIssues);
+
+    const softBreakIssues = this.detectSoftBreaks(node);
+    issues.push(...softBreakIssues);
+
+    // 保持される改行は、クリーニング対象がある場合のみ理由とともに報告する
+    if (TextAnalyzer.hasActionableIssues(issues)) {
+      issues.push(...this.detectProtectedBreaks(currentText));
     }
 
+    const estimatedChanges = this.generateEstimatedChanges(issues);
+
+    return {
+      node,
+      issues,
+      estimatedChanges,
+      originalText: currentText,
+      missingFont: node.hasMissingFont || undefined
+    };
+  }
+
+  private async detectAutoWidthIssues(node: TextNode): Promise<DetectedIssue[]> {
+    const issues: DetectedIssue[] = [];
+
     try {
-      await figma.loadFontAsync(fontName);
-      this.loadedFonts.add(fontKey);
+      const currentAutoResize = node.textAutoResize;
+      const currentText = node.characters;
+
+      // WIDTH_AND_HEIGHTのテキストのみをauto-width問題として検出
+      // 幅は最長の行に合わせて決まるため、各改行の行幅は最長の行との比率で評価する
+      if (currentAutoResize === 'WIDTH_AND_HEIGHT' && currentText.includes('\n')) {
+        const { lineWidthRatios, lineAvailableWidths } =
+          await this.measureLineWidths(currentText, node.width, SharedUtilities.getStyleRuns(node));
+        const breaks = this.getMeasuredBreaks(currentText, lineWidthRatios);
+        const continuingCount = breaks.filter(item => !BreakConfidenceScorer.endsSentence(item.lineBefore)).length;
+
+        issues.push({
+          type: 'auto-width',
+          breakPositions: breaks.map(item => item.position),
+          lineWidthRatios,
+          lineAvailableWidths,
+          confidence: BreakConfidenceScorer.score(breaks, this.config.lineBreakThreshold),
+          reason: `幅が自動のテキストに改行${breaks.length}箇所（文の途中${continuingCount}箇所）`
+        });
+      }
     } catch (error) {
-      throw new Error(`Failed to load font ${fontName.family} ${fontName.style}: ${error}`);
+      console.warn('Could not read textAutoResize for node:', node.name);
     }
+
+    return issues;
   }
 
-  async applyChangesToNode(node: TextNode, changes: ProcessingChanges): Promise<void> {
-    if (node.hasMissingFont) {
-      throw new Error(`Cannot process node with missing font: ${node.name}`);
-    }
+  private async detectEdgeBreaking(node: TextNode): Promise<DetectedIssue[]> {
+    const issues: DetectedIssue[] = [];
 
-    if (node.locked) {
-      throw new Error(`Cannot process locked node: ${node.name}`);
+    try {
+      const currentText = node.characters;
+      const nodeWidth = node.width;
+      const runs = SharedUtilities.getStyleRuns(node);
+
+      const autoResize = node.textAutoResize;
+      if (autoResize === 'NONE' || autoResize === 'HEIGHT') {
+        const { suspiciousBreaks, lineWidthRatios, lineAvailableWidths } =
+          await this.findEdgeBreakingLines(currentText, nodeWidth, runs);
+        const wideRatios = lineWidthRatios.filter(ratio => ratio >= this.config.lineBreakThreshold);
+        // 「常に削除」「指定の文字で結合」のルールに一致する改行は、幅に関係なく処理対象になる
+        const ruleBreaks = this.findRuleMatchedBreaks(currentText).filter(item => item.rule.action !== 'keep');
+
+        if (wideRatios.length > 0 || ruleBreaks.length > 0) {
+          const reasons: string[] = [];
+          if (wideRatios.length > 0) {
+            const maxRatio = Math.max(...wideRatios);
+            reasons.push(`右端付近（最大${Math.round(maxRatio * 100)}%）の行${wideRatios.length}行（うち改行で終わる行${suspiciousBreaks.length}行）`);
+          }
+          if (ruleBreaks.length > 0) {
+            reasons.push(`ルールで削除する改行${ruleBreaks.length}箇所`);
+          }
+
+          const breakPositions = new Set([
+            ...suspiciousBreaks.map(item => item.position),
+            ...ruleBreaks.map(item => item.position)
+          ]);
+          issues.push({
+            type: 'edge-breaking',
+            breakPositions: Array.from(breakPositions).sort((a, b) => a - b),
+            wrappedLineWidthRatios: lineWidthRatios,
+            wrappedLineAvailableWidths: lineAvailableWidths,
+            confidence: suspiciousBreaks.length > 0
+              ? BreakConfidenceScorer.score(suspiciousBreaks, this.config.lineBreakThreshold)
+              : BreakConfidenceScorer.getRuleBreakConfidence(),
+            reason: reasons.join('、')
+          });
+        }
+      }
+    } catch (error) {
+      console.warn('Could not analyze edge breaking for node:', node.name);
     }
 
-    await this.loadNodeFonts(node);
+    return issues;
+  }
+
+  private detectSoftBreaks(node: TextNode): DetectedIssue[] {
+    const issues: DetectedIssue[] = [];
 
     try {
-      if (changes.newAutoResize) {
-        node.textAutoResize = changes.newAutoResize;
-      }
+      const currentText = node.characters;
+      const paragraphSpacing = node.paragraphSpacing;
 
-      if (changes.newText) {
-        node.characters = changes.newText;
-      }
+      if (paragraphSpacing === 0) {
+        const softBreakCount = this.countSoftBreaks(currentText);
 
+        if (softBreakCount > 0) {
+          issues.push({
+            type: 'soft-break',
+            breakPositions: this.findSoftBreakPositions(currentText),
+            confidence: BreakConfidenceScorer.getSoftBreakConfidence(),
+            reason: `ソフト改行${softBreakCount}箇所`
+          });
+        }
+      }
     } catch (error) {
-      throw new Error(`Failed to apply changes to node ${node.name}: ${error}`);
+      console.warn('Could not analyze soft breaks for node:', node.name);
     }
+
+    return issues;
   }
 
-  async validateNodesForProcessing(nodes: TextNode[]): Promise<{
-    processable: TextNode[];
-    issues: { node: TextNode; reason: string }[];
-  }> {
-    const processable: TextNode[] = [];
-    const issues: { node: TextNode; reason: string }[] = [];
 
-    for (const node of nodes) {
-      if (node.hasMissingFont) {
-        issues.push({
-          node,
-          reason: 'Missing font - cannot process'
-        });
+
+  // 折り返し後の各行の幅比率・利用可能幅と、閾値以上の幅のうち改行で終わる行の改行箇所を返す
+  // 検出は閾値以上の幅の行があるかで判定し、改行箇所は位置と確信度の算出にのみ使う
+  private async findEdgeBreakingLines(text: string, containerWidth: number, runs: StyledTextRun[]): Promise<{
+    suspiciousBreaks: MeasuredBreak[];
+    lineWidthRatios: number[];
+    lineAvailableWidths: number[];
+  }> {
+    const lines = await this.simulateWordWrap(text, containerWidth, runs);
+    const breakPattern = this.getBreakPattern();
+    const suspiciousBreaks: MeasuredBreak[] = [];
+    const lineWidthRatios: number[] = [];
+    const lineAvailableWidths = lines.map(line => line.availableWidth);
+
+    for (let index = 0; index < lines.length; index++) {
+      const line = SharedUtilities.trimLineRange(lines[index]);
+      const nextLine = index + 1 < lines.length ? SharedUtilities.trimLineRange(lines[index + 1]) : undefined;
+      if (line.text.length === 0) {
+        lineWidthRatios.push(0);
         continue;
       }
 
-      if (node.locked) {
-        issues.push({
-          node,
-          reason: 'Node is locked'
+      const measuredWidth = await this.utils.measureWrappedLineWidth(line, nextLine, runs);
+      const ratio = measuredWidth / lines[index].availableWidth;
+      lineWidthRatios.push(ratio);
+
+      // 改行位置として報告するのは、自動の折り返しではなく改行文字で終わる行のみ
+      const lineEnd = lines[index].start + lines[index].text.length;
+      if (ratio >= this.config.lineBreakThreshold && breakPattern.test(text.charAt(lineEnd))) {
+        suspiciousBreaks.push({
+          position: lineEnd,
+          lineBefore: line.text,
+          lineAfter: nextLine?.text ?? '',
+          widthRatio: ratio
         });
+      }
+    }
+
+    return { suspiciousBreaks, lineWidthRatios, lineAvailableWidths };
+  }
+
+  // 改行（\n）ごとに、最初に一致したユーザー定義ルールを返す
+  private findRuleMatchedBreaks(text: string): { position: number; rule: BreakRule }[] {
+    const lines = text.split('\n');
+    const matches: { position: number; rule: BreakRule }[] = [];
+    let position = 0;
+
+    for (let i = 0; i < lines.length - 1; i++) {
+      position += lines[i].length;
+      const rule = this.breakRules.match(lines[i], lines[i + 1]);
+      if (rule) {
+        matches.push({ position, rule });
+      }
+      position += 1;
+    }
+
+    return matches;
+  }
+
+  // 改行で区切った行の幅比率から、改行ごとの計測結果を組み立てる
+  private getMeasuredBreaks(text: string, ratios: number[]): MeasuredBreak[] {
+    const lines = text.split('\n');
+    const breaks: MeasuredBreak[] = [];
+    let position = 0;
+
+    for (let i = 0; i < lines.length - 1; i++) {
+      position += lines[i].length;
+      breaks.push({
+        position,
+        lineBefore: lines[i],
+        lineAfter: lines[i + 1],
+        widthRatio: ratios[i] ?? 0
+      });
+      position += 1;
+    }
+
+    return breaks;
+  }
+
+  // 改行で区切った各行の利用可能幅と、それに対する行幅の比率を返す
+  // 改行の直後は段落の先頭行になるため、各行に段落の字下げがかかる
+  async measureLineWidths(text: string, containerWidth: number, runs: StyledTextRun[]): Promise<{
+    lineWidthRatios: number[];
+    lineAvailableWidths: number[];
+  }> {
+    const lines: TextLineRange[] = [];
+    let position = 0;
+    for (const lineText of text.split('\n')) {
+      lines.push({ text: lineText, start: position });
+      position += lineText.length + 1;
+    }
+
+    const lineWidthRatios: number[] = [];
+    const lineAvailableWidths: number[] = [];
+    for (let index = 0; index < lines.length; index++) {
+      const line = SharedUtilities.trimLineRange(lines[index]);
+      const nextLine = index + 1 < lines.length ? SharedUtilities.trimLineRange(lines[index + 1]) : undefined;
+      const availableWidth = SharedUtilities.getAvailableWidth(containerWidth, lines[index].start, runs, true);
+      lineAvailableWidths.push(availableWidth);
+
+      if (line.text.length === 0 || availableWidth <= 0) {
+        lineWidthRatios.push(0);
         continue;
       }
 
-      if (!node.visible) {
+      const measuredWidth = await this.utils.measureWrappedLineWidth(line, nextLine, runs);
+      lineWidthRatios.push(measuredWidth / availableWidth);
+    }
+
+    return { lineWidthRatios, lineAvailableWidths };
+  }
+
+  // ユーザー定義ルールは組み込みの判定より優先する（TextProcessor.evaluateBreakCandidates と同じ）
+  private detectProtectedBreaks(text: string): DetectedIssue[] {
+    const issues: DetectedIssue[] = [];
+    const lines = text.split('\n');
+    let position = 0;
+
+    for (let i = 0; i < lines.length - 1; i++) {
+      position += lines[i].length;
+      const rule = this.breakRules.match(lines[i], lines[i + 1]);
+      const reason = rule
+        ? (rule.action === 'keep' ? `ルール「${rule.name}」` : null)
+        : ParagraphClassifier.getProtectionReason(lines[i], lines[i + 1]);
+      if (reason) {
         issues.push({
-          node,
-          reason: 'Node is hidden'
+          type: 'protected-break',
+          reason,
+          breakPositions: [position]
         });
-        continue;
       }
+      position += 1;
+    }
+
+    return issues;
+  }
+
+  // 保持される改行の報告のみの場合はクリーニング対象としない
+  static hasActionableIssues(issues: DetectedIssue[]): boolean {
+    return issues.some(issue => issue.type !== 'protected-break');
+  }
+
+  // テキスト全体の確信度（クリーニング対象の問題のうち最も低いもの）
+  static getConfidence(issues: DetectedIssue[]): number | undefined {
+    const scores = issues
+      .filter(issue => issue.type !== 'protected-break' && issue.confidence !== undefined)
+      .map(issue => issue.confidence as number);
+    return scores.length > 0 ? Math.min(...scores) : undefined;
+  }
+
+  private findSoftBreakPositions(text: string): number[] {
+    const positions: number[] = [];
+
+    for (const softBreakChar of this.config.softBreakChars) {
+      let index = text.indexOf(softBreakChar);
+      while (index !== -1) {
+        positions.push(index);
+        index = text.indexOf(softBreakChar, index + softBreakChar.length);
+      }
+    }
+    return positions.sort((a, b) => a - b);
+  }
+
+  private countSoftBreaks(text: string): number {
+    let count = 0;
+
+    for (const softBreakChar of this.config.softBreakChars) {
+      const escapedChar = softBreakChar.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const regex = new RegExp(escapedChar, 'g');
+      const occurrences = (text.match(regex) || []).length;
+      count += occurrences;
+    }
+    return count;
+  }
+
+  private async simulateWordWrap(text: string, containerWidth: number, runs: StyledTextRun[]): Promise<WrappedLine[]> {
+    const lines: WrappedLine[] = [];
+    // 分析時は全ての改行文字（通常の改行とソフト改行）を考慮する
+    const paragraphs = text.split(this.getBreakPattern());
+    let paragraphStart = 0;
+
+    for (const paragraph of paragraphs) {
+      const start = paragraphStart;
+      paragraphStart += paragraph.length + 1;
+
+      // ソフト改行の後は同じ段落の続きのため、段落の字下げは通常の改行の後にのみかかる
+      const isParagraphStart = start === 0 || text.charAt(start - 1) === '\n';
+      const firstLineWidth = SharedUtilities.getAvailableWidth(containerWidth, start, runs, isParagraphStart);
+
+      if (paragraph.trim() === '') {
+        lines.push({ text: '', start, availableWidth: firstLineWidth });
+        continue;
+      }
+
+      // 段落全体が収まる場合は単語単位の計測を省略
+      if (await this.utils.measureRangeWidth({ text: paragraph, start }, runs) <= firstLineWidth) {
+        lines.push({ text: paragraph, start, availableWidth: firstLineWidth });
+        continue;
+      }
+
+      const words = paragraph.split(/(\s+)/);
+      let currentLine: WrappedLine = { text: '', start, availableWidth: firstLineWidth };
+      let wordStart = start;
+
+      for (const word of words) {
+        const testLine: WrappedLine = { ...currentLine, text: currentLine.text + word };
+        const estimatedWidth = await this.utils.measureRangeWidth(testLine, runs);
+
+        if (estimatedWidth <= currentLine.availableWidth || currentLine.text === '') {
+          currentLine = testLine;
+        } else {
+          lines.push(currentLine);
+          currentLine = {
+            text: word,
+            start: wordStart,
+            availableWidth: SharedUtilities.getAvailableWidth(containerWidth, wordStart, runs, false)
+          };
+        }
+        wordStart += word.length;
+      }
+
+      if (currentLine.text !== '') {
+        lines.push(currentLine);
+      }
+    }
+
+    return lines;
+  }
+
+
+
+  private generateEstimatedChanges(issues: DetectedIssue[]): string {
+    if (!TextAnalyzer.hasActionableIssues(issues)) {
+      return 'No changes needed';
+    }
+
+    const changeTypes = new Set<string>();
+
+    issues.forEach(issue => {
+      switch (issue.type) {
+        case 'auto-width':
+          changeTypes.add('幅＆改行');
+          break;
+        case 'edge-breaking':
+          changeTypes.add('改行');
+          break;
+        case 'soft-break':
+          changeTypes.add('ソフト改行');
+          break;
+      }
+    });
+
+    const protectedCount = issues.filter(issue => issue.type === 'protected-break').length;
+    if (protectedCount > 0) {
+      changeTypes.add(`保持${protectedCount}箇所`);
+    }
+
+    return Array.from(changeTypes).join(', ');
+  }
+
+  private hasBreakCharacters(text: string): boolean {
+    // 通常の改行文字をチェック
+    if (text.includes('\n')) {
+      return true;
+    }
+
+    // ソフト改行文字をチェック
+    for (const softBreakChar of this.config.softBreakChars) {
+      if (text.includes(softBreakChar)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  // 無視指定のノードも除外せずに返し、analyzeTextNode で 'Skipped (ignored)' として報告する
+  findTextNodes(ignoreMinCharacters: boolean = false): TextNode[] {
+    const selection = figma.currentPage.selection;
+
+    if (selection.length > 0) {
+      const textNodes: TextNode[] = [];
+
+      for (const selectedNode of selection) {
+        if (selectedNode.type === 'TEXT') {
+          const minCharCheck = ignoreMinCharacters || selectedNode.characters.length >= this.config.minCharacters;
+          if (!selectedNode.locked && selectedNode.visible && minCharCheck) {
+            textNodes.push(selectedNode);
+          }
+        } else {
+          if ('findAll' in selectedNode) {
+            const childTextNodes = selectedNode.findAll((node: SceneNode) => {
+              if (node.type !== 'TEXT') return false;
+              const textNode = node as TextNode;
+              const minCharCheck = ignoreMinCharacters || textNode.characters.length >= this.config.minCharacters;
+              return !textNode.locked &&
+                textNode.visible &&
+                minCharCheck;
+            }) as TextNode[];
+
+            textNodes.push(...childTextNodes);
+          }
+        }
+      }
+
+      return textNodes;
+    }
+
+    return this.findTextNodesInPage(figma.currentPage, ignoreMinCharacters);
+  }
+
+  findTextNodesInPage(page: PageNode, ignoreMinCharacters: boolean = false): TextNode[] {
+    return page.findAll(node => {
+      if (node.type !== 'TEXT') return false;
+      const textNode = node as TextNode;
+      const minCharCheck = ignoreMinCharacters || textNode.characters.length >= this.config.minCharacters;
+      return !textNode.locked &&
+        textNode.visible &&
+        minCharCheck;
+    }) as TextNode[];
+  }
+}//
+// ===== TEXT PROCESSOR CLASS =====
+class TextProcessor {
+  private config: ProcessingConfig;
+  private utils: SharedUtilities;
+  private breakRules: BreakRuleSet;
+
+  constructor(config: ProcessingConfig, utils: SharedUtilities) {
+    this.config = config;
+    this.utils = utils;
+    this.breakRules = new BreakRuleSet(config.breakRules);
+  }
+
+  private getBreakPattern(): RegExp {
+    return this.utils.getBreakPattern(this.config.softBreakChars);
+  }
+
+  async generateChanges(originalText: string, issues: DetectedIssue[], node: TextNode): Promise<ProcessingChanges> {
+    const changes: ProcessingChanges = {};
+    let processedText = originalText;
+
+    const runs = SharedUtilities.getStyleRuns(node);
+
+    if (node.textAutoResize === 'WIDTH_AND_HEIGHT') {
+      changes.newAutoResize = 'HEIGHT';
+      processedText = await this.removeLineBreaksJapanesePriority(processedText, node.width, runs);
+    } else {
+      for (const issue of issues) {
+        switch (issue.type) {
+          case 'auto-width':
+            changes.newAutoResize = 'HEIGHT';
+            processedText = await this.removeLineBreaksJapanesePriority(processedText, node.width, runs);
+            break;
+          case 'edge-breaking':
+            processedText = await this.removeLineBreaksJapanesePriority(processedText, node.width, runs);
+            break;
+          case 'soft-break':
+            processedText = this.convertSoftBreaksToHard(processedText);
+            break;
+        }
+      }
+    }
+
+    if (processedText !== originalText) {
+      changes.newText = processedText;
+    }
+
+    return changes;
+  }
+
+  // 各改行（最終行以外の \n）について、削除候補かどうかと行幅比率を判定する
+  async evaluateBreakCandidates(
+    text: string,
+    containerWidth: number,
+    runs: StyledTextRun[]
+  ): Promise<BreakCandidate[]> {
+    const lines = text.split('\n');
+    const breakPattern = this.getBreakPattern();
+    const candidates: BreakCandidate[] = [];
+    let lineStart = 0;
+
+    for (let i = 0; i < lines.length - 1; i++) {
+      const currentLine = lines[i];
+      const currentTrimmed = currentLine.trim();
+      // ソフト改行を含む行は、最後のソフト改行の後ろが改行直前の行になる
+      // ソフト改行の後は同じ段落の続きのため、段落の字下げはかからない（simulateWordWrap と同じ）
+      const segments = currentLine.split(breakPattern);
+      const lastSegment = segments[segments.length - 1];
+      const isParagraphStart = segments.length === 1;
+      const currentRange = SharedUtilities.trimLineRange({
+        text: lastSegment,
+        start: lineStart + currentLine.length - lastSegment.length
+      });
+      lineStart += currentLine.length + 1;
+      const nextRange = SharedUtilities.trimLineRange({ text: lines[i + 1], start: lineStart });
+
+      // 禁則処理で早めに折り返された行も、追い出された文字を含めて幅を判定する
+      // 幅は段落の字下げ・リストのインデントを引いた利用可能幅に対して評価する
+      const availableWidth = SharedUtilities.getAvailableWidth(containerWidth, currentRange.start, runs, isParagraphStart);
+      const measuredWidth = await this.utils.measureWrappedLineWidth(currentRange, nextRange, runs);
+      const widthRatio = measuredWidth / availableWidth;
+
+      // ユーザー定義ルールは組み込みの判定より優先する
+      const rule = this.breakRules.match(currentLine, lines[i + 1]);
+      let protectedReason = rule ? undefined : ParagraphClassifier.getProtectionReason(currentLine, lines[i + 1]) ?? undefined;
+
+      let remove: boolean;
+      if (rule) {
+        remove = rule.action !== 'keep';
+        if (rule.action === 'keep') {
+          protectedReason = `ルール「${rule.name}」`;
+        }
+      } else if (protectedReason || KinsokuRules.isBreakKeptAfter(currentTrimmed)) {
+        remove = false;
+      } else {
+        // 幅が閾値以上なら改行を削除、閾値未満なら改行を保持
+        remove = widthRatio >= this.config.lineBreakThreshold;
+      }
+
+      candidates.push({
+        position: lineStart - 1,
+        lineBefore: currentLine,
+        lineAfter: lines[i + 1],
+        widthRatio,
+        availableWidth,
+        remove,
+        protectedReason,
+        matchedRule: rule?.name,
+        separator: rule?.action === 'join' ? rule.separator : undefined
+      });
+    }
+
+    return candidates;
+  }
+
+  private async removeLineBreaksJapanesePriority(
+    text: string,
+    containerWidth: number = PROCESSING_CONSTANTS.DEFAULT_CONTAINER_WIDTH,
+    runs: StyledTextRun[],
+    ignoreMinCharacters: boolean = false,
+    acceptedBreaks?: Set<number>
+  ): Promise<string> {
+    if (!ignoreMinCharacters && text.length < this.config.minCharacters) {
+      return text;
+    }
+
+    // 通常の改行文字（\n）のみを処理対象とする
+    // ソフト改行文字は元のまま保持し、convertSoftBreaksオプションで別途処理される
+    const lines = text.split('\n');
+    const candidates = await this.evaluateBreakCandidates(text, containerWidth, runs);
+
+    // レビューで承認された改行が指定されている場合は、その改行のみを削除する
+    const shouldBreakAfter: boolean[] = candidates.map(candidate =>
+      acceptedBreaks ? !acceptedBreaks.has(candidate.position) : !candidate.remove
+    );
+    shouldBreakAfter.push(true);
+
+    return TextProcessor.joinLines(lines, shouldBreakAfter, candidates.map(candidate => candidate.separator), !!this.config.dehyphenate);
+  }
+
+  // ユーザー定義ルールのみを適用した結果（設定画面のテスト欄用）。結合方法は実際の処理と同じ
+  static applyBreakRules(text: string, breakRules: BreakRuleSet, dehyphenate: boolean): string {
+    const lines = text.split('\n');
+    const matchedRules = lines.slice(0, -1).map((line, i) => breakRules.match(line, lines[i + 1]));
+    const shouldBreakAfter = matchedRules.map(rule => !rule || rule.action === 'keep');
+    shouldBreakAfter.push(true);
+
+    return TextProcessor.joinLines(lines, shouldBreakAfter, matchedRules.map(rule => rule?.action === 'join' ? rule.separator : undefined), dehyphenate);
+  }
+
+  // separators[i] は lines[i] と lines[i + 1] の間の改行に指定されたルールの区切り文字
+  private static joinLines(lines: string[], shouldBreakAfter: boolean[], separators: (string | undefined)[], dehyphenate: boolean): string {
+    const result: string[] = [];
+    let currentCombined = '';
+    const cjkLatinSpacing = ScriptDetector.usesCjkLatinSpacing(lines.join('\n'));
+
+    for (let i = 0; i < lines.length; i++) {
+      if (currentCombined === '') {
+        currentCombined = lines[i];
+      } else {
+        currentCombined = TextProcessor.combineLines(currentCombined, lines[i], cjkLatinSpacing, dehyphenate, separators[i - 1]);
+      }
+
+      if (shouldBreakAfter[i]) {
+        result.push(currentCombined);
+        currentCombined = '';
+      }
+    }
+
+    return result.join('\n');
+  }
+
+  private static combineLines(line1: string, line2: string, cjkLatinSpacing: boolean, dehyphenate: boolean, separator?: string): string {
+    const trimmed1 = line1.replace(/\s+$/, '');
+    const trimmed2 = line2.replace(/^\s+/, '');
+
+    if (!trimmed1 || !trimmed2) {
+      return trimmed1 + trimmed2;
+    }
+
+    if (separator !== undefined) {
+      return trimmed1 + separator + trimmed2;
+    }
+
+    if (dehyphenate) {
+      const dehyphenated = Dehyphenator.join(trimmed1, trimmed2);
+      if (dehyphenated !== null) {
+        return dehyphenated;
+      }
+    }
+
+    return trimmed1 + ScriptDetector.getJoinSeparator(trimmed1, trimmed2, cjkLatinSpacing) + trimmed2;
+  }
+
+  private convertSoftBreaksToHard(text: string): string {
+    let result = text;
+
+    for (const softBreakChar of this.config.softBreakChars) {
+      result = result.replace(new RegExp(softBreakChar, 'g'), '\n');
+    }
+
+    return result;
+  }
+
+  // パブリックメソッド：外部からの直接処理用
+  public async processTextDirectly(
+    text: string,
+    containerWidth: number,
+    runs: StyledTextRun[],
+    options: {
+      removeLineBreaks?: boolean;
+      convertSoftBreaks?: boolean;
+      acceptedBreaks?: number[];
+    }
+  ): Promise<string> {
+    let processedText = text;
+
+    if (options.removeLineBreaks) {
+      const acceptedBreaks = options.acceptedBreaks ? new Set(options.acceptedBreaks) : undefined;
+      processedText = await this.removeLineBreaksJapanesePriority(processedText, containerWidth, runs, true, acceptedBreaks);
+    }
+
+    if (options.convertSoftBreaks) {
+      processedText = this.convertSoftBreaksToHard(processedText);
+    }
+
+    return processedText;
+  }
+}
+
+// ===== TEXT EDIT ENGINE CLASS =====
+// node.characters を丸ごと置き換えると文字単位のスタイルが失われるため、
+// 差分のみを deleteCharacters / insertCharacters で適用する
+class TextEditEngine {
+  computeEditSpans(originalText: string, newText: string): TextEditSpan[] {
+    // 共通の前方・後方部分を除外して差分計算の範囲を絞る
+    let prefix = 0;
+    const maxPrefix = Math.min(originalText.length, newText.length);
+    while (prefix < maxPrefix && originalText[prefix] === newText[prefix]) {
+      prefix++;
+    }
+
+    let suffix = 0;
+    const maxSuffix = maxPrefix - prefix;
+    while (
+      suffix < maxSuffix &&
+      originalText[originalText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const a = originalText.substring(prefix, originalText.length - suffix);
+    const b = newText.substring(prefix, newText.length - suffix);
+
+    if (a.length === 0 && b.length === 0) {
+      return [];
+    }
+
+    const spans: TextEditSpan[] = [];
+    let current: TextEditSpan | null = null;
+
+    for (const op of this.diffCharacters(a, b)) {
+      if (op.type === 'equal') {
+        if (current) {
+          spans.push(current);
+          current = null;
+        }
+        continue;
+      }
+
+      if (!current) {
+        current = { start: prefix + op.originalIndex, deleteCount: 0, insertText: '' };
+      }
+
+      if (op.type === 'delete') {
+        current.deleteCount++;
+      } else {
+        current.insertText += op.char;
+      }
+    }
+
+    if (current) {
+      spans.push(current);
+    }
+
+    return spans;
+  }
+
+  buildPreview(originalText: string, newText: string): PreviewSegment[] {
+    const segments: PreviewSegment[] = [];
+    let position = 0;
+    // 編集後のテキスト上の位置 = 元の位置 + それまでの編集による文字数の増減
+    let offset = 0;
+
+    for (const span of this.computeEditSpans(originalText, newText)) {
+      if (span.start > position) {
+        const equalText = originalText.substring(position, span.start);
+        segments.push({ kind: 'equal', before: equalText, after: equalText });
+      }
+
+      const before = originalText.substring(span.start, span.start + span.deleteCount);
+      const kind = this.classifyEdit(before, span.insertText, originalText.charAt(span.start - 1));
+      const isHyphenation = kind === 'removed-soft-hyphen' || kind === 'dehyphenated' || kind === 'kept-hyphen';
+      segments.push({
+        kind,
+        before,
+        after: span.insertText,
+        detail: isHyphenation ? TextEditEngine.getWordAt(newText, span.start + offset) : undefined
+      });
+      position = span.start + span.deleteCount;
+      offset += span.insertText.length - span.deleteCount;
+    }
+
+    if (position < originalText.length) {
+      const equalText = originalText.substring(position);
+      segments.push({ kind: 'equal', before: equalText, after: equalText });
+    }
+
+    return segments;
+  }
+
+  private classifyEdit(before: string, after: string, precedingChar: string): PreviewSegment['kind'] {
+    const isBlank = (text: string) => /^\s*$/.test(text);
+
+    if (after === '' && /^\u00AD\s*\n\s*$/.test(before)) {
+      return 'removed-soft-hyphen';
+    }
+    if (after === '' && /^[-\u2010]\s*\n\s*$/.test(before)) {
+      return 'dehyphenated';
+    }
+    if (after === '' && before.includes('\n') && isBlank(before) && /[-\u2010]/.test(precedingChar)) {
+      return 'kept-hyphen';
+    }
+
+    if (before.includes('\n') && isBlank(before) && after === '') {
+      return 'removed-break';
+    }
+    if (before.includes('\n') && isBlank(before) && after !== '' && isBlank(after) && !after.includes('\n')) {
+      return 'joined-space';
+    }
+    if (!before.includes('\n') && before !== '' && after === '\n') {
+      return 'converted-soft-break';
+    }
+    return 'changed';
+  }
+
+  // 位置を含む、英字とハイフンの続く範囲（well-known など）
+  private static getWordAt(text: string, position: number): string {
+    const isWordChar = (char: string) => /[A-Za-z\-\u2010]/.test(char);
+    let start = position;
+    let end = position;
+    while (start > 0 && isWordChar(text.charAt(start - 1))) start--;
+    while (end < text.length && isWordChar(text.charAt(end))) end++;
+    return text.substring(start, end);
+  }
+
+  // 後方の編集から適用することで、前方の位置がずれないようにする
+  applyEditSpans(node: TextNode, spans: TextEditSpan[]): void {
+    const sortedSpans = [...spans].sort((x, y) => y.start - x.start);
+
+    for (const span of sortedSpans) {
+      if (span.insertText) {
+        // 削除対象の直後に挿入し、削除される文字（改行など）のスタイルを引き継ぐ
+        const insertAt = span.start + span.deleteCount;
+        node.insertCharacters(insertAt, span.insertText, span.deleteCount > 0 ? 'BEFORE' : 'AFTER');
+      }
+
+      if (span.deleteCount > 0) {
+        node.deleteCharacters(span.start, span.start + span.deleteCount);
+      }
+    }
+  }
+
+  // Myers の差分アルゴリズム（編集数 D に対して O((N+M)D)）
+  private diffCharacters(
+    a: string,
+    b: string
+  ): { type: 'equal' | 'delete' | 'insert'; originalIndex: number; char: string }[] {
+    const max = a.length + b.length;
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    const trace: Int32Array[] = [];
+
+    let finalD = -1;
+    for (let d = 0; d <= max && finalD < 0; d++) {
+      // 手順 d の直前の状態を k ∈ [-d, d] の範囲だけ保存
+      trace.push(v.slice(offset - d, offset + d + 1));
+
+      for (let k = -d; k <= d; k += 2) {
+        let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+        let y = x - k;
+
+        while (x < a.length && y < b.length && a[x] === b[y]) {
+          x++;
+          y++;
+        }
+
+        v[offset + k] = x;
+
+        if (x >= a.length && y >= b.length) {
+          finalD = d;
+          break;
+        }
+      }
+    }
+
+    const ops: { type: 'equal' | 'delete' | 'insert'; originalIndex: number; char: string }[] = [];
+    let x = a.length;
+    let y = b.length;
+
+    for (let d = finalD; d > 0; d--) {
+      const snapshot = trace[d];
+      const at = (k: number) => snapshot[k + d];
+      const k = x - y;
+      const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+      const prevX = at(prevK);
+      const prevY = prevX - prevK;
+
+      while (x > prevX && y > prevY) {
+        x--;
+        y--;
+        ops.push({ type: 'equal', originalIndex: x, char: a[x] });
+      }
+
+      if (prevK === k + 1) {
+        ops.push({ type: 'insert', originalIndex: prevX, char: b[prevY] });
+      } else {
+        ops.push({ type: 'delete', originalIndex: prevX, char: a[prevX] });
+      }
+
+      x = prevX;
+      y = prevY;
+    }
+
+    while (x > 0 && y > 0) {
+      x--;
+      y--;
+      ops.push({ type: 'equal', originalIndex: x, char: a[x] });
+    }
+
+    return ops.reverse();
+  }
+}
+
+// ===== FONT MANAGER CLASS =====
+class FontManager {
+  private loadedFonts: Set<string> = new Set();
+  private editEngine: TextEditEngine = new TextEditEngine();
+  private componentResolver: ComponentContextResolver;
+
+  constructor(componentResolver: ComponentContextResolver) {
+    this.componentResolver = componentResolver;
+  }
+
+  checkMissingFonts(nodes: TextNode[]): TextNode[] {
+    return nodes.filter(node => node.hasMissingFont);
+  }
+
+  async loadNodeFonts(node: TextNode): Promise<void> {
+    if (node.hasMissingFont) {
+      throw new Error(`Cannot load missing font for node: ${node.name}`);
+    }
+
+    if (node.fontName !== figma.mixed) {
+      await this.loadFont(node.fontName);
+    } else {
+      const fontNames = node.getRangeAllFontNames(0, node.characters.length);
+      for (const fontName of fontNames) {
+        await this.loadFont(fontName);
+      }
+    }
+  }
+
+  async loadFont(fontName: FontName): Promise<void> {
+    const fontKey = `${fontName.family}-${fontName.style}`;
+
+    if (this.loadedFonts.has(fontKey)) {
+      return;
+    }
+
+    try {
+      await figma.loadFontAsync(fontName);
+      this.loadedFonts.add(fontKey);
+    } catch (error) {
+      throw new Error(`Failed to load font ${fontName.family} ${fontName.style}: ${error}`);
+    }
+  }
+
+  async applyChangesToNode(node: TextNode, changes: ProcessingChanges): Promise<void> {
+    if (node.hasMissingFont) {
+      throw new Error(`Cannot process node with missing font: ${node.name}`);
+    }
+
+    if (node.locked) {
+      throw new Error(`Cannot process locked node: ${node.name}`);
+    }
+
+    await this.loadNodeFonts(node);
+
+    try {
+      if (changes.newAutoResize) {
+        node.textAutoResize = changes.newAutoResize;
+      }
+
+      if (changes.newText !== undefined) {
+        // プロパティに紐づくテキストは直接編集すると紐づけが外れるため、プロパティ値を書き換える
+        const binding = this.componentResolver.findPropertyBinding(node);
+        if (binding) {
+          this.componentResolver.setBoundText(binding, changes.newText);
+        } else {
+          const spans = this.editEngine.computeEditSpans(node.characters, changes.newText);
+          this.editEngine.applyEditSpans(node, spans);
+        }
+      }
+
+    } catch (error) {
+      throw new Error(`Failed to apply changes to node ${node.name}: ${error}`);
+    }
+  }
+
+  async validateNodesForProcessing(nodes: TextNode[]): Promise<{
+    processable: TextNode[];
+    issues: { node: TextNode; reason: string }[];
+  }> {
+    const processable: TextNode[] = [];
+    const issues: { node: TextNode; reason: string }[] = [];
+
+    for (const node of nodes) {
+      if (node.hasMissingFont) {
+        issues.push({
+          node,
+          reason: 'Missing font - cannot process'
+        });
+        continue;
+      }
+
+      if (node.locked) {
+        issues.push({
+          node,
+          reason: 'Node is locked'
+        });
+        continue;
+      }
+
+      if (!node.visible) {
+        issues.push({
+          node,
+          reason: 'Node is hidden'
+        });
+        continue;
+      }
+
+      if (IgnoreMarkers.find(node)) {
+        issues.push({
+          node,
+          reason: 'Skipped (ignored)'
+        });
+        continue;
+      }
+
+      // 変数に紐づくテキストは変数の値を修正する
+      if (node.boundVariables?.characters) {
+        issues.push({
+          node,
+          reason: 'Text is bound to a variable - clean the variable instead'
+        });
+        continue;
+      }
+
+      processable.push(node);
+    }
+
+    return { processable, issues };
+  }
+}
+
+// ===== COMPONENT CONTEXT RESOLVER CLASS =====
+class ComponentContextResolver {
+  private instanceCountCache: Map<string, number> = new Map();
+
+  async resolve(node: TextNode): Promise<ComponentTextInfo> {
+    const owner = this.findOwner(node);
+
+    if (!owner) {
+      return { context: 'none' };
+    }
+
+    const propertyName = this.findPropertyBinding(node)?.displayName;
+
+    if (owner.type === 'COMPONENT') {
+      return {
+        context: 'main-component',
+        propertyName,
+        componentName: owner.name,
+        isRemote: owner.remote,
+        affectedInstanceCount: await this.countInstances(owner)
+      };
+    }
+
+    const resolved = await this.resolveSource(node);
+    const source = resolved?.source ?? null;
+    const mainComponent = resolved ? resolved.mainComponent : await owner.getMainComponentAsync();
+
+    return {
+      context: this.isCharactersOverridden(node, source) ? 'instance-override' : 'instance-inherited',
+      propertyName,
+      componentName: mainComponent?.name,
+      sourceNodeId: source?.id,
+      isRemote: mainComponent?.remote,
+      affectedInstanceCount: mainComponent ? await this.countInstances(mainComponent) : undefined
+    };
+  }
+
+  async getSourceTextNode(node: TextNode): Promise<TextNode | null> {
+    const resolved = await this.resolveSource(node);
+    return resolved ? resolved.source : null;
+  }
+
+  // インスタンス内のノードIDは「I<最も外側のインスタンスID>;<ネストしたインスタンスID>;...;<テキストID>」の形式。
+  // 継承元は最も外側のインスタンスのメインコンポーネント内の対応ノードで、
+  // ネストしている場合はそのメイン側でのオーバーライドも含めた値になる
+  private async resolveSource(node: TextNode): Promise<{ source: TextNode; mainComponent: ComponentNode } | null> {
+    const outermost = this.findOutermostInstance(node);
+    if (!outermost || !node.id.startsWith(`I${outermost.id};`)) {
+      return null;
+    }
+
+    const mainComponent = await outermost.getMainComponentAsync();
+    if (!mainComponent) {
+      return null;
+    }
+
+    const innerPath = node.id.slice(outermost.id.length + 2).split(';');
+    const sourceId = innerPath.length > 1 ? `I${innerPath.join(';')}` : innerPath[0];
+    const source = await figma.getNodeByIdAsync(sourceId);
+    if (!source || source.type !== 'TEXT' || !this.isDescendantOf(source, mainComponent)) {
+      return null;
+    }
+
+    return { source, mainComponent };
+  }
+
+  // プロパティを定義・保持しているノード（インスタンス、コンポーネント、バリアントの場合はコンポーネントセット）を探す
+  findPropertyBinding(node: TextNode): TextPropertyBinding | null {
+    const propertyName = node.componentPropertyReferences?.characters;
+    if (!propertyName) {
+      return null;
+    }
+
+    const displayName = propertyName.split('#')[0];
+    let current = node.parent;
+    while (current && current.type !== 'PAGE' && current.type !== 'DOCUMENT') {
+      if (current.type === 'INSTANCE' && propertyName in current.componentProperties) {
+        return { propertyName, displayName, owner: current };
+      }
+      if (current.type === 'COMPONENT') {
+        const definitionOwner = current.parent?.type === 'COMPONENT_SET' ? current.parent : current;
+        if (propertyName in definitionOwner.componentPropertyDefinitions) {
+          return { propertyName, displayName, owner: definitionOwner };
+        }
+      }
+      current = current.parent;
+    }
+
+    return null;
+  }
+
+  // インスタンスではプロパティ値、コンポーネントでは定義の既定値を書き換える
+  setBoundText(binding: TextPropertyBinding, text: string): void {
+    if (binding.owner.type === 'INSTANCE') {
+      binding.owner.setProperties({ [binding.propertyName]: text });
+    } else {
+      binding.owner.editComponentProperty(binding.propertyName, { defaultValue: text });
+    }
+  }
+
+  // 最も内側のインスタンスまたはメインコンポーネント
+  private findOwner(node: TextNode): InstanceNode | ComponentNode | null {
+    let current = node.parent;
+    while (current && current.type !== 'PAGE' && current.type !== 'DOCUMENT') {
+      if (current.type === 'INSTANCE' || current.type === 'COMPONENT') {
+        return current;
+      }
+      current = current.parent;
+    }
+    return null;
+  }
+
+  private findOutermostInstance(node: TextNode): InstanceNode | null {
+    let outermost: InstanceNode | null = null;
+    let current = node.parent;
+    while (current && current.type !== 'PAGE' && current.type !== 'DOCUMENT') {
+      if (current.type === 'INSTANCE') {
+        outermost = current;
+      }
+      current = current.parent;
+    }
+    return outermost;
+  }
+
+  private isDescendantOf(node: BaseNode, ancestor: BaseNode): boolean {
+    let current = node.parent;
+    while (current) {
+      if (current.id === ancestor.id) {
+        return true;
+      }
+      current = current.parent;
+    }
+    return false;
+  }
+
+  // 文字列のオーバーライドを記録しているインスタンス（オーバーライドがなければ null）。
+  // resetOverrides はインスタンス単位で働くため、同じインスタンスで他のレイヤーもオーバーライドされている場合はエラーにする
+  findResettableOverride(node: TextNode): InstanceNode | null {
+    if (this.findPropertyBinding(node)?.owner.type === 'INSTANCE') {
+      throw new Error('Text is bound to a component property - reset the property in Figma');
+    }
+
+    const instance = this.findOverridingInstance(node);
+    if (instance && instance.overrides.some(override => override.id !== node.id)) {
+      throw new Error('Other layers in the instance are overridden - reset the override in Figma');
+    }
+    return instance;
+  }
+
+  private isCharactersOverridden(node: TextNode, source: TextNode | null): boolean {
+    return this.findOverridingInstance(node) !== null ||
+      (source !== null && source.characters !== node.characters);
+  }
+
+  // ネストしたインスタンスのオーバーライドは外側のインスタンスに記録されるため、祖先をすべて確認する
+  private findOverridingInstance(node: TextNode): InstanceNode | null {
+    let current = node.parent;
+    while (current && current.type !== 'PAGE' && current.type !== 'DOCUMENT') {
+      if (current.type === 'INSTANCE') {
+        const overridden = current.overrides.some(override =>
+          override.id === node.id && override.overriddenFields.includes('characters')
+        );
+        if (overridden) {
+          return current;
+        }
+      }
+      current = current.parent;
+    }
+    return null;
+  }
+
+  private async countInstances(component: ComponentNode): Promise<number> {
+    const cached = this.instanceCountCache.get(component.id);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const instances = await component.getInstancesAsync();
+    this.instanceCountCache.set(component.id, instances.length);
+    return instances.length;
+  }
+}
+
+// ===== VARIABLE TEXT CLEANER CLASS =====
+class VariableTextCleaner {
+  private config: ProcessingConfig;
+  private processor: TextProcessor;
+  private editEngine: TextEditEngine;
+
+  constructor(config: ProcessingConfig, processor: TextProcessor, editEngine: TextEditEngine) {
+    this.config = config;
+    this.processor = processor;
+    this.editEngine = editEngine;
+  }
+
+  async scan(layout: VariableReferenceLayout): Promise<VariableScanResult[]> {
+    const results: VariableScanResult[] = [];
+    const variables = await figma.variables.getLocalVariablesAsync('STRING');
+    const collections = new Map<string, VariableCollection | null>();
+
+    for (const variable of variables) {
+      if (!collections.has(variable.variableCollectionId)) {
+        collections.set(
+          variable.variableCollectionId,
+          await figma.variables.getVariableCollectionByIdAsync(variable.variableCollectionId)
+        );
+      }
+      const collection = collections.get(variable.variableCollectionId);
+
+      for (const [modeId, value] of Object.entries(variable.valuesByMode)) {
+        // エイリアス（他の変数の参照）は参照先の変数側で処理する
+        if (typeof value !== 'string' || !this.hasBreakCharacters(value)) {
+          continue;
+        }
+
+        const proposedText = await this.cleanValue(value, layout);
+        results.push({
+          variableId: variable.id,
+          variableName: variable.name,
+          collectionName: collection?.name ?? '',
+          modeId,
+          modeName: collection?.modes.find(mode => mode.modeId === modeId)?.name ?? modeId,
+          originalText: value,
+          proposedText,
+          previewSegments: this.editEngine.buildPreview(value, proposedText)
+        });
+      }
+    }
+
+    return results;
+  }
+
+  // スキャン後に値が変わっている可能性があるため、現在の値から再計算して書き込む
+  async apply(
+    entries: { variableId: string; modeId: string }[],
+    layout: VariableReferenceLayout
+  ): Promise<number> {
+    let updatedCount = 0;
+
+    for (const entry of entries) {
+      const variable = await figma.variables.getVariableByIdAsync(entry.variableId);
+      const value = variable?.valuesByMode[entry.modeId];
+      if (!variable || typeof value !== 'string') {
+        continue;
+      }
+
+      const cleaned = await this.cleanValue(value, layout);
+      if (cleaned !== value) {
+        variable.setValueForMode(entry.modeId, cleaned);
+        updatedCount++;
+      }
+    }
+
+    return updatedCount;
+  }
+
+  private async cleanValue(value: string, layout: VariableReferenceLayout): Promise<string> {
+    const runs: StyledTextRun[] = [{
+      start: 0,
+      end: value.length,
+      style: {
+        fontName: PROCESSING_CONSTANTS.DEFAULT_FONT_NAME,
+        fontSize: layout.fontSize,
+        letterSpacing: { unit: 'PIXELS', value: 0 }
+      }
+    }];
+
+    return await this.processor.processTextDirectly(value, layout.referenceWidth, runs, {
+      removeLineBreaks: true,
+      convertSoftBreaks: true
+    });
+  }
+
+  private hasBreakCharacters(text: string): boolean {
+    return text.includes('\n') || this.config.softBreakChars.some(char => text.includes(char));
+  }
+}
+
+// ===== ORIGINAL STATE STORE CLASS =====
+class OriginalStateStore {
+  private fontManager: FontManager;
+
+  constructor(fontManager: FontManager) {
+    this.fontManager = fontManager;
+  }
+
+  // 最初のクリーニング前の状態を保持するため、既に記録がある場合は上書きしない
+  record(node: TextNode): void {
+    if (OriginalStateStore.hasRecord(node)) {
+      return;
+    }
+
+    const state: StoredOriginalState = {
+      characters: node.characters,
+      textAutoResize: node.textAutoResize,
+      width: node.width,
+      savedAt: Date.now()
+    };
+    node.setPluginData(PROCESSING_CONSTANTS.PLUGIN_DATA_KEYS.ORIGINAL_STATE, JSON.stringify(state));
+  }
+
+  static hasRecord(node: TextNode): boolean {
+    return node.getPluginData(PROCESSING_CONSTANTS.PLUGIN_DATA_KEYS.ORIGINAL_STATE) !== '';
+  }
+
+  private getRecord(node: TextNode): StoredOriginalState | null {
+    const data = node.getPluginData(PROCESSING_CONSTANTS.PLUGIN_DATA_KEYS.ORIGINAL_STATE);
+    if (!data) return null;
+
+    try {
+      const parsed = JSON.parse(data);
+      if (typeof parsed.characters !== 'string' || typeof parsed.width !== 'number') {
+        return null;
+      }
+      return parsed as StoredOriginalState;
+    } catch {
+      return null;
+    }
+  }
+
+  async restore(node: TextNode): Promise<ProcessingResult> {
+    const state = this.getRecord(node);
+    if (!state) {
+      return {
+        node,
+        success: false,
+        error: 'No stored original'
+      };
+    }
+
+    try {
+      const changes: ProcessingChanges = {
+        newAutoResize: state.textAutoResize
+      };
+      if (state.characters !== node.characters) {
+        changes.newText = state.characters;
+      }
+
+      await this.fontManager.applyChangesToNode(node, changes);
+
+      // 固定幅のテキストは元の幅に戻す（高さはテキスト量に応じて再計算される）
+      if (state.textAutoResize !== 'WIDTH_AND_HEIGHT' && node.width !== state.width) {
+        node.resize(state.width, node.height);
+      }
+
+      node.setPluginData(PROCESSING_CONSTANTS.PLUGIN_DATA_KEYS.ORIGINAL_STATE, '');
+      node.setRelaunchData({});
+
+      return {
+        node,
+        success: true,
+        changes
+      };
+    } catch (error) {
+      return {
+        node,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  async findRecordedNodes(scope: RestoreScope, nodeIds: string[] = []): Promise<TextNode[]> {
+    const isRecordedText = (node: SceneNode): boolean =>
+      node.type === 'TEXT' && OriginalStateStore.hasRecord(node);
+
+    if (scope === 'nodes') {
+      const nodes = await SharedUtilities.findSceneNodesById(nodeIds);
+      return nodes.filter(isRecordedText) as TextNode[];
+    }
+
+    if (scope === 'selection') {
+      const textNodes: TextNode[] = [];
+      for (const selectedNode of figma.currentPage.selection) {
+        if (isRecordedText(selectedNode)) {
+          textNodes.push(selectedNode as TextNode);
+        } else if ('findAll' in selectedNode) {
+          textNodes.push(...selectedNode.findAll(isRecordedText) as TextNode[]);
+        }
+      }
+      return textNodes;
+    }
+
+    return figma.currentPage.findAll(isRecordedText) as TextNode[];
+  }
+}
+
+// ===== SCAN REPORT CLASS =====
+class ScanReportBuilder {
+  private analyzer: TextAnalyzer;
+
+  constructor(analyzer: TextAnalyzer) {
+    this.analyzer = analyzer;
+  }
+
+  // 問題の見つかったテキストと無視中のテキストを1行ずつにまとめ、問題の種類ごとに集計する
+  async build(results: TextAnalysisResult[]): Promise<ScanReport> {
+    const rows: ScanReportRow[] = [];
+
+    for (const result of results) {
+      if (result.issues.length === 0 && !result.ignored) continue;
+      rows.push(await this.buildRow(result));
+    }
+
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+      for (const issueType of row.issueTypes) {
+        counts.set(issueType, (counts.get(issueType) ?? 0) + 1);
+      }
+    }
+
+    return {
+      fileName: figma.root.name,
+      generatedAt: new Date().toISOString(),
+      totalTexts: results.length,
+      summary: Array.from(counts, ([issueType, count]) => ({ issueType, count })),
+      rows
+    };
+  }
+
+  static toJson(report: ScanReport): string {
+    return JSON.stringify(report, null, 2);
+  }
+
+  // 表計算ソフトで文字化けしないよう BOM を付け、末尾に集計を続ける
+  static toCsv(report: ScanReport): string {
+    const header = ['node id', 'page', 'frame path', 'layer name', 'issue types', 'confidence', 'reasons', 'line count',
+      'line width ratios', 'available widths', 'original text', 'proposed text', 'status'];
+    const lines = [header.map(ScanReportBuilder.escapeCsv).join(',')];
+
+    for (const row of report.rows) {
+      lines.push([
+        row.nodeId,
+        row.page,
+        row.framePath,
+        row.layerName,
+        row.issueTypes.join('; '),
+        row.confidence !== null ? row.confidence.toFixed(2) : '',
+        row.reasons.join('; '),
+        String(row.lineCount),
+        row.lineWidthRatios.map(ratio => ratio.toFixed(2)).join(' | '),
+        row.lineAvailableWidths.map(width => width.toFixed(1)).join(' | '),
+        row.originalText,
+        row.proposedText,
+        row.status
+      ].map(ScanReportBuilder.escapeCsv).join(','));
+    }
+
+    lines.push('');
+    lines.push(['issue type', 'count'].join(','));
+    for (const { issueType, count } of report.summary) {
+      lines.push([ScanReportBuilder.escapeCsv(issueType), String(count)].join(','));
+    }
+    lines.push(['total texts', String(report.totalTexts)].join(','));
+
+    return '\uFEFF' + lines.join('\r\n');
+  }
+
+  private async buildRow(result: TextAnalysisResult): Promise<ScanReportRow> {
+    const node = result.node;
+    const issueTypes = Array.from(new Set(result.issues.map(issue => issue.type as string)));
+    if (result.ignored) {
+      issueTypes.push('ignored');
+    }
+
+    // スキャン後に削除されたノードは、スキャン時の情報のみを出力する
+    const { lineWidthRatios, lineAvailableWidths } = node.removed
+      ? { lineWidthRatios: [], lineAvailableWidths: [] }
+      : await this.analyzer.measureLineWidths(result.originalText, node.width, SharedUtilities.getStyleRuns(node));
+
+    return {
+      nodeId: node.id,
+      page: result.pageName ?? '',
+      framePath: node.removed ? '' : ScanReportBuilder.getFramePath(node),
+      layerName: node.removed ? '' : node.name,
+      issueTypes,
+      confidence: TextAnalyzer.getConfidence(result.issues) ?? null,
+      reasons: result.issues.filter(issue => issue.reason).map(issue => issue.reason as string),
+      lineCount: result.originalText.split('\n').length,
+      lineWidthRatios,
+      lineAvailableWidths,
+      originalText: result.originalText,
+      proposedText: result.proposedText ?? result.originalText,
+      status: result.estimatedChanges
+    };
+  }
+
+  // ページ直下からテキストの親までのレイヤー名
+  private static getFramePath(node: SceneNode): string {
+    const names: string[] = [];
+    let current = node.parent;
+
+    while (current && current.type !== 'PAGE' && current.type !== 'DOCUMENT') {
+      names.unshift(current.name);
+      current = current.parent;
+    }
+
+    return names.join(' / ');
+  }
+
+  // 「=」「+」「-」「@」で始まるセルは表計算ソフトで数式として実行されないよう「'」を前に付ける
+  private static escapeCsv(value: string): string {
+    const guarded = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(guarded) ? `"${guarded.replace(/"/g, '""')}"` : guarded;
+  }
+}
+
+// ===== BATCH PROCESSOR CLASS =====
+class BatchProcessor {
+  private isProcessing = false;
+  private analyzer: TextAnalyzer;
+  private processor: TextProcessor;
+  private fontManager: FontManager;
+  private originalStore: OriginalStateStore;
+  private editEngine: TextEditEngine = new TextEditEngine();
+  private componentResolver: ComponentContextResolver = new ComponentContextResolver();
+  private variableCleaner: VariableTextCleaner;
+  private reportBuilder: ScanReportBuilder;
+  private config: ProcessingConfig;
+  private utils: SharedUtilities;
+
+  constructor(config: ProcessingConfig) {
+    this.config = config;
+    this.fontManager = new FontManager(this.componentResolver);
+    this.originalStore = new OriginalStateStore(this.fontManager);
+    this.utils = new SharedUtilities(config, this.fontManager);
+    this.analyzer = new TextAnalyzer(config, this.utils);
+    this.processor = new TextProcessor(config, this.utils);
+    this.variableCleaner = new VariableTextCleaner(config, this.processor, this.editEngine);
+    this.reportBuilder = new ScanReportBuilder(this.analyzer);
+  }
+
+  async analyzeNodes(
+    nodes: TextNode[]
+  ): Promise<TextAnalysisResult[]> {
+    this.isProcessing = true;
+
+    const results: TextAnalysisResult[] = [];
+    const CHUNK_SIZE = PROCESSING_CONSTANTS.CHUNK_SIZE;
+
+    try {
+      for (let i = 0; i < nodes.length; i += CHUNK_SIZE) {
+        const chunk = nodes.slice(i, i + CHUNK_SIZE);
+
+        for (let j = 0; j < chunk.length; j++) {
+          const node = chunk[j];
+          const _currentIndex = i + j;
+
+          try {
+            const result = await this.analyzer.analyzeTextNode(node);
+            result.hasStoredOriginal = OriginalStateStore.hasRecord(node);
+
+            const page = SharedUtilities.getPage(node);
+            if (page) {
+              result.pageId = page.id;
+              result.pageName = page.name;
+            }
+
+            if (TextAnalyzer.hasActionableIssues(result.issues)) {
+              result.component = await this.componentResolver.resolve(node);
+            }
+
+            // 変数に紐づくノードは直接編集せず、変数を案内する
+            const variableAlias = node.boundVariables?.characters;
+            if (variableAlias) {
+              const variable = await figma.variables.getVariableByIdAsync(variableAlias.id);
+              result.boundVariable = { id: variableAlias.id, name: variable?.name ?? variableAlias.id };
+            }
+
+            // 適用前に確認できるよう、変更案を試算して差分を添付する
+            if (TextAnalyzer.hasActionableIssues(result.issues)) {
+              const changes = await this.processor.generateChanges(result.originalText, result.issues, node);
+              result.proposedText = changes.newText ?? result.originalText;
+              result.previewSegments = this.editEngine.buildPreview(result.originalText, result.proposedText);
+              result.breakCandidates = await this.processor.evaluateBreakCandidates(
+                result.originalText,
+                node.width,
+                SharedUtilities.getStyleRuns(node)
+              );
+            }
+
+            results.push(result);
+
+          } catch (error) {
+            results.push({
+              node,
+              issues: [],
+              estimatedChanges: `Analysis error: ${error}`,
+              originalText: node.characters || ''
+            });
+          }
+        }
+      }
+
+    } catch (error) {
+      throw new Error(`Batch analysis failed: ${error}`);
+    } finally {
+      this.isProcessing = false;
+      this.utils.disposeMeasurementProbe();
+    }
+
+    return results;
+  }
+
+  async processNodes(
+    analysisResults: TextAnalysisResult[]
+  ): Promise<ProcessingResult[]> {
+    this.isProcessing = true;
+
+    const results: ProcessingResult[] = [];
+    const nodesToProcess = analysisResults.filter(result => TextAnalyzer.hasActionableIssues(result.issues));
+    const CHUNK_SIZE = PROCESSING_CONSTANTS.CHUNK_SIZE;
+
+    try {
+      const { processable, issues } = await this.fontManager.validateNodesForProcessing(
+        nodesToProcess.map(r => r.node)
+      );
+
+      for (const issue of issues) {
+        results.push({
+          node: issue.node,
+          success: false,
+          error: issue.reason
+        });
+      }
+
+      for (let i = 0; i < processable.length; i += CHUNK_SIZE) {
+        const chunk = processable.slice(i, i + CHUNK_SIZE);
+
+        for (let j = 0; j < chunk.length; j++) {
+          const node = chunk[j];
+          const _currentIndex = i + j;
+
+          try {
+            const analysisResult = analysisResults.find(r => r.node.id === node.id);
+            if (!analysisResult || !TextAnalyzer.hasActionableIssues(analysisResult.issues)) {
+              continue;
+            }
+
+            const changes = await this.processor.generateChanges(
+              analysisResult.originalText,
+              analysisResult.issues,
+              node
+            );
+
+            await this.applyChangesWithRecord(node, changes);
+
+            results.push({
+              node,
+              success: true,
+              changes
+            });
+
+          } catch (error) {
+            results.push({
+              node,
+              success: false,
+              error: error instanceof Error ? error.message : 'Unknown error'
+            });
+          }
+        }
+      }
+
+    } catch (error) {
+      throw new Error(`Batch processing failed: ${error}`);
+    } finally {
+      this.isProcessing = false;
+      this.utils.disposeMeasurementProbe();
+    }
+
+    return results;
+  }
+
+  // 選択中の要素内のテキスト（最小文字数に関わらず）。未選択の場合は空
+  findSelectedTextNodes(): TextNode[] {
+    if (figma.currentPage.selection.length === 0) {
+      return [];
+    }
+    return this.analyzer.findTextNodes(true);
+  }
+
+  // クイックアクションの対象範囲内のテキスト
+  async findTextNodesInScope(scope: QuickActionScope): Promise<TextNode[]> {
+    if (scope === 'selection') {
+      return this.findSelectedTextNodes();
+    }
+    if (scope === 'page') {
+      return this.analyzer.findTextNodesInPage(figma.currentPage);
+    }
+
+    await figma.loadAllPagesAsync();
+    const nodes: TextNode[] = [];
+    for (const page of figma.root.children) {
+      nodes.push(...this.analyzer.findTextNodesInPage(page));
+    }
+    return nodes;
+  }
+
+  async scanCurrentPage(): Promise<TextAnalysisResult[]> {
+    const allNodes = this.analyzer.findTextNodes();
+
+    return await this.analyzeNodes(allNodes);
+  }
+
+  // 全ページを読み込み、ページ順に結果をまとめる
+  async scanDocument(): Promise<TextAnalysisResult[]> {
+    await figma.loadAllPagesAsync();
+
+    const results: TextAnalysisResult[] = [];
+    for (const page of figma.root.children) {
+      const pageNodes = this.analyzer.findTextNodesInPage(page);
+      results.push(...await this.analyzeNodes(pageNodes));
+    }
+
+    return results;
+  }
+
+  async processIndividualNode(
+    node: TextNode,
+    forceChanges?: {
+      removeLineBreaks?: boolean;
+      convertSoftBreaks?: boolean;
+      acceptedBreaks?: number[];
+    }
+  ): Promise<ProcessingResult> {
+    try {
+      const { processable, issues } = await this.fontManager.validateNodesForProcessing([node]);
+
+      if (processable.length === 0) {
+        return {
+          node,
+          success: false,
+          error: issues[0]?.reason || 'Node cannot be processed'
+        };
+      }
+
+      if (forceChanges) {
+        const changes: ProcessingChanges = {};
+        let processedText = node.characters;
+
+        const runs = SharedUtilities.getStyleRuns(node);
+        processedText = await this.processor.processTextDirectly(processedText, node.width, runs, forceChanges);
+
+        if (forceChanges.removeLineBreaks && node.textAutoResize === 'WIDTH_AND_HEIGHT') {
+          changes.newAutoResize = 'HEIGHT';
+        }
+
+        if (processedText !== node.characters) {
+          changes.newText = processedText;
+        }
+
+        if (Object.keys(changes).length > 0) {
+          await this.applyChangesWithRecord(node, changes);
+          return {
+            node,
+            success: true,
+            changes
+          };
+        }
+      }
+
+      return {
+        node,
+        success: true,
+        changes: {}
+      };
+
+    } catch (error) {
+      return {
+        node,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  // コンポーネント内のテキストを、指定されたアクションに応じてメイン側・インスタンス側のどちらで処理するか切り替える
+  async processComponentText(
+    node: TextNode,
+    action: ComponentAction,
+    forceChanges: {
+      removeLineBreaks?: boolean;
+      convertSoftBreaks?: boolean;
+      acceptedBreaks?: number[];
+    }
+  ): Promise<ProcessingResult> {
+    if (action === 'clean') {
+      return await this.processIndividualNode(node, forceChanges);
+    }
+
+    const source = await this.componentResolver.getSourceTextNode(node);
+    if (!source) {
+      return {
+        node,
+        success: false,
+        error: 'Main component text not found'
+      };
+    }
+
+    if (action === 'fix-main') {
+      const info = await this.componentResolver.resolve(node);
+      if (info.isRemote) {
+        return {
+          node,
+          success: false,
+          error: 'Main component is from a library and cannot be edited'
+        };
+      }
+      return await this.processIndividualNode(source, forceChanges);
+    }
+
+    // reset-override: オーバーライドを取り消してメインコンポーネントのテキストに戻す
+    try {
+      const { processable, issues } = await this.fontManager.validateNodesForProcessing([node]);
+      if (processable.length === 0) {
+        return {
+          node,
+          success: false,
+          error: issues[0]?.reason || 'Node cannot be processed'
+        };
+      }
+
+      // 以後メインコンポーネントの変更に追従するよう、テキストを書き換えずにオーバーライド自体を取り消す
+      const changes: ProcessingChanges = {};
+      const instance = this.componentResolver.findResettableOverride(node);
+      if (instance) {
+        await this.fontManager.loadNodeFonts(node);
+        if (source.characters !== node.characters) {
+          changes.newText = source.characters;
+          this.originalStore.record(node);
+        }
+        instance.resetOverrides();
+      }
+      return {
+        node,
+        success: true,
+        changes
+      };
+    } catch (error) {
+      return {
+        node,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  async getComponentSourceId(node: TextNode, action: ComponentAction): Promise<string> {
+    if (action !== 'fix-main') {
+      return node.id;
+    }
+    const source = await this.componentResolver.getSourceTextNode(node);
+    return source ? source.id : node.id;
+  }
+
+  // 変更前の状態を保存してから適用し、後から復元できるようにする
+  private async applyChangesWithRecord(node: TextNode, changes: ProcessingChanges): Promise<void> {
+    if (changes.newText === undefined && !changes.newAutoResize) {
+      return;
+    }
+    this.originalStore.record(node);
+    await this.fontManager.applyChangesToNode(node, changes);
+
+    // プロパティパネルに「再クリーニング」ボタンを表示する
+    node.setRelaunchData({ [PROCESSING_CONSTANTS.COMMANDS.RECLEAN]: '不要な改行を再度クリーニング' });
+  }
+
+  async restoreOriginals(scope: RestoreScope, nodeIds?: string[]): Promise<ProcessingResult[]> {
+    const nodes = await this.originalStore.findRecordedNodes(scope, nodeIds);
+    const results: ProcessingResult[] = [];
+
+    for (const node of nodes) {
+      results.push(await this.originalStore.restore(node));
+    }
+
+    return results;
+  }
+
+  async scanVariables(layout: VariableReferenceLayout): Promise<VariableScanResult[]> {
+    try {
+      return await this.variableCleaner.scan(layout);
+    } finally {
+      this.utils.disposeMeasurementProbe();
+    }
+  }
+
+  async applyVariables(
+    entries: { variableId: string; modeId: string }[],
+    layout: VariableReferenceLayout
+  ): Promise<number> {
+    try {
+      return await this.variableCleaner.apply(entries, layout);
+    } finally {
+      this.utils.disposeMeasurementProbe();
+    }
+  }
+
+  async calibrateWidths(): Promise<FontCalibration[]> {
+    return await new WidthCalibrator(this.utils).calibrate();
+  }
+
+  async buildReport(results: TextAnalysisResult[]): Promise<ScanReport> {
+    try {
+      return await this.reportBuilder.build(results);
+    } finally {
+      this.utils.disposeMeasurementProbe();
+    }
+  }
+
+  // 個別処理をまとめて呼び出した後に計測用ノードを片付ける
+  disposeMeasurementProbe(): void {
+    this.utils.disposeMeasurementProbe();
+  }
+}
+
+// ===== DEFAULT CONFIGURATION =====
+const DEFAULT_CONFIG: ProcessingConfig = {
+  minCharacters: 20,
+  lineBreakThreshold: 0.95,
+  softBreakChars: ['\u2028'],
+  fontWidthMultiplier: 1.0,
+  breakRules: [],
+  fontCalibrations: [],
+  fontMetricProfiles: [],
+  dehyphenate: true
+};
+
+// ===== CONFIG SCHEMA CLASS =====
+class ConfigSchema {
+  // 保存・書き出し時のバージョンから現在のバージョンへ設定を変換する
+  static migrate(raw: unknown, version: number): unknown {
+    if (version > PROCESSING_CONSTANTS.CONFIG_SCHEMA_VERSION) {
+      throw new Error(`バージョン${version}の設定には対応していません。プラグインを更新してください`);
+    }
+    if (!raw || typeof raw !== 'object') {
+      return raw;
+    }
+
+    let migrated = { ...(raw as Record<string, unknown>) };
+
+    // version 1 → 2: 改行ルールが追加された
+    if (version < 2 && migrated.breakRules === undefined) {
+      migrated = { ...migrated, breakRules: [] };
+    }
+
+    return migrated;
+  }
+
+  // 範囲外の値をデフォルトで置き換えず、項目ごとのエラーとして返す
+  static validate(raw: unknown): ConfigValidationResult {
+    if (!raw || typeof raw !== 'object') {
+      return { config: null, errors: ['設定の形式が正しくありません'] };
+    }
+
+    const value = raw as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (!Number.isInteger(value.minCharacters) || (value.minCharacters as number) < 1 || (value.minCharacters as number) > 1000) {
+      errors.push('最小文字数は1〜1000の整数で指定してください');
+    }
+    if (typeof value.lineBreakThreshold !== 'number' || !(value.lineBreakThreshold >= 0.1 && value.lineBreakThreshold <= 1.0)) {
+      errors.push('改行処理閾値は0.1〜1.0で指定してください');
+    }
+    if (value.fontWidthMultiplier !== undefined &&
+      (typeof value.fontWidthMultiplier !== 'number' || !(value.fontWidthMultiplier >= 0.5 && value.fontWidthMultiplier <= 1.5))) {
+      errors.push('フォント幅係数は0.5〜1.5で指定してください');
+    }
+    if (!Array.isArray(value.softBreakChars) || value.softBreakChars.length === 0 ||
+      value.softBreakChars.some(char => typeof char !== 'string' || char.length === 0)) {
+      errors.push('ソフト改行文字を1つ以上指定してください');
+    }
+
+    const breakRules = value.breakRules ?? [];
+    if (!Array.isArray(breakRules)) {
+      errors.push('改行ルールの形式が正しくありません');
+    } else {
+      breakRules.forEach((rule: BreakRule, index) => {
+        const ruleError = BreakRuleSet.validate(rule);
+        if (ruleError) {
+          errors.push(`改行ルール${index + 1}: ${ruleError}`);
+        }
+      });
+    }
+
+    const fontCalibrations = value.fontCalibrations ?? [];
+    const { MIN_FACTOR, MAX_FACTOR } = PROCESSING_CONSTANTS.CALIBRATION;
+    if (!Array.isArray(fontCalibrations) || fontCalibrations.some((item: FontCalibration) =>
+      !item || typeof item.family !== 'string' || typeof item.style !== 'string' ||
+      typeof item.factor !== 'number' || !(item.factor >= MIN_FACTOR && item.factor <= MAX_FACTOR)
+    )) {
+      errors.push(`フォントごとの幅の補正係数は${MIN_FACTOR}〜${MAX_FACTOR}で指定してください`);
+    }
+
+    if (value.dehyphenate !== undefined && typeof value.dehyphenate !== 'boolean') {
+      errors.push('行末ハイフンの解消の指定が正しくありません');
+    }
+
+    const fontMetricProfiles = value.fontMetricProfiles ?? [];
+    if (!Array.isArray(fontMetricProfiles)) {
+      errors.push('フォントメトリクスの形式が正しくありません');
+    } else {
+      fontMetricProfiles.forEach((profile: FontMetricProfile) => {
+        const profileError = FontMetricRegistry.validate(profile);
+        if (profileError) {
+          errors.push(`フォントメトリクス: ${profileError}`);
+        }
+      });
+    }
+
+    if (errors.length > 0) {
+      return { config: null, errors };
+    }
+
+    return {
+      config: {
+        minCharacters: value.minCharacters as number,
+        lineBreakThreshold: value.lineBreakThreshold as number,
+        softBreakChars: value.softBreakChars as string[],
+        fontWidthMultiplier: (value.fontWidthMultiplier as number | undefined) ?? DEFAULT_CONFIG.fontWidthMultiplier,
+        breakRules: breakRules as BreakRule[],
+        fontCalibrations: fontCalibrations as FontCalibration[],
+        fontMetricProfiles: fontMetricProfiles as FontMetricProfile[],
+        dehyphenate: (value.dehyphenate as boolean | undefined) ?? DEFAULT_CONFIG.dehyphenate
+      },
+      errors
+    };
+  }
+}
+
+// ===== CONFIG PRESET STORE CLASS =====
+class ConfigPresetStore {
+  // 保存済みのプリセットを読み込む。旧形式の単一設定はデフォルトプリセットとして取り込む
+  async load(): Promise<{ collection: PresetCollection; warnings: string[] }> {
+    const warnings: string[] = [];
+    let stored: unknown;
+
+    try {
+      stored = await figma.clientStorage.getAsync(PROCESSING_CONSTANTS.CONFIG_STORAGE_KEYS.PRESETS);
+    } catch (error) {
+      console.warn('Failed to load presets:', error);
+    }
+
+    if (!stored || typeof stored !== 'object') {
+      return { collection: await this.createFromLegacyConfig(warnings), warnings };
+    }
+
+    const raw = stored as Partial<PresetCollection>;
+    const version = typeof raw.version === 'number' ? raw.version : 1;
+    const presets: ConfigPreset[] = [];
+
+    for (const preset of Array.isArray(raw.presets) ? raw.presets : []) {
+      const name = typeof preset?.name === 'string' ? preset.name : '';
+
+      // 新しいバージョンのプラグインで保存された設定は移行できないため、警告してデフォルトに戻す
+      let result: ConfigValidationResult;
+      try {
+        result = this.readConfig(preset?.config, version);
+      } catch (error) {
+        result = { config: null, errors: [error instanceof Error ? error.message : String(error)] };
+      }
+      const { config, errors } = result;
 
-      processable.push(node);
+      if (!name) {
+        warnings.push('名前のないプリセットを読み飛ばしました');
+      } else if (!config) {
+        warnings.push(`プリセット「${name}」を読み込めませんでした: ${errors.join(' / ')}`);
+      } else {
+        presets.push({ name, config });
+      }
     }
 
-    return { processable, issues };
-  }
-}
+    if (presets.length === 0) {
+      presets.push({ name: PROCESSING_CONSTANTS.DEFAULT_PRESET_NAME, config: { ...DEFAULT_CONFIG } });
+    }
 
-// ===== BATCH PROCESSOR CLASS =====
-class BatchProcessor {
-  private isProcessing = false;
-  private analyzer: TextAnalyzer;
-  private processor: TextProcessor;
-  private fontManager: FontManager;
-  private config: ProcessingConfig;
-  private utils: SharedUtilities;
+    const activePreset = presets.some(preset => preset.name === raw.activePreset)
+      ? raw.activePreset as string
+      : presets[0].name;
 
-  constructor(config: ProcessingConfig) {
-    this.config = config;
-    this.utils = new SharedUtilities(config);
-    this.analyzer = new TextAnalyzer(config, this.utils);
-    this.processor = new TextProcessor(config, this.utils);
-    this.fontManager = new FontManager();
+    return {
+      collection: { version: PROCESSING_CONSTANTS.CONFIG_SCHEMA_VERSION, activePreset, presets },
+      warnings
+    };
   }
 
-  async analyzeNodes(
-    nodes: TextNode[]
-  ): Promise<TextAnalysisResult[]> {
-    this.isProcessing = true;
+  static getActiveConfig(collection: PresetCollection): ProcessingConfig {
+    const active = collection.presets.find(preset => preset.name === collection.activePreset);
+    return active ? active.config : DEFAULT_CONFIG;
+  }
 
-    const results: TextAnalysisResult[] = [];
-    const CHUNK_SIZE = PROCESSING_CONSTANTS.CHUNK_SIZE;
+  async saveActive(config: ProcessingConfig): Promise<void> {
+    const { collection } = await this.load();
+    await this.write(ConfigPresetStore.putPreset(collection, collection.activePreset, config));
+  }
 
-    try {
-      for (let i = 0; i < nodes.length; i += CHUNK_SIZE) {
-        const chunk = nodes.slice(i, i + CHUNK_SIZE);
+  async savePreset(name: string, config: ProcessingConfig): Promise<void> {
+    const { collection } = await this.load();
+    await this.write(ConfigPresetStore.putPreset(collection, name, config));
+  }
 
-        for (let j = 0; j < chunk.length; j++) {
-          const node = chunk[j];
-          const _currentIndex = i + j;
+  // 同じ名前のプリセットは上書きし、保存したプリセットを選択状態にする
+  private static putPreset(collection: PresetCollection, name: string, config: ProcessingConfig): PresetCollection {
+    const presets = collection.presets.filter(preset => preset.name !== name);
+    const index = collection.presets.findIndex(preset => preset.name === name);
+    presets.splice(index === -1 ? presets.length : index, 0, { name, config: { ...DEFAULT_CONFIG, ...config } });
 
-          try {
-            const result = await this.analyzer.analyzeTextNode(node);
-            results.push(result);
+    return { ...collection, activePreset: name, presets };
+  }
 
-          } catch (error) {
-            results.push({
-              node,
-              issues: [],
-              estimatedChanges: `Analysis error: ${error}`,
-              originalText: node.characters || ''
-            });
-          }
-        }
-      }
+  async switchPreset(name: string): Promise<void> {
+    const { collection } = await this.load();
+    if (!collection.presets.some(preset => preset.name === name)) {
+      throw new Error(`プリセット「${name}」が見つかりません`);
+    }
+    await this.write({ ...collection, activePreset: name });
+  }
 
-    } catch (error) {
-      throw new Error(`Batch analysis failed: ${error}`);
-    } finally {
-      this.isProcessing = false;
+  async deletePreset(name: string): Promise<void> {
+    const { collection } = await this.load();
+    const presets = collection.presets.filter(preset => preset.name !== name);
+    if (presets.length === 0) {
+      throw new Error('最後のプリセットは削除できません');
     }
 
-    return results;
+    const activePreset = collection.activePreset === name ? presets[0].name : collection.activePreset;
+    await this.write({ ...collection, activePreset, presets });
   }
 
-  async processNodes(
-    analysisResults: TextAnalysisResult[]
-  ): Promise<ProcessingResult[]> {
-    this.isProcessing = true;
-
-    const results: ProcessingResult[] = [];
-    const nodesToProcess = analysisResults.filter(result => result.issues.length > 0);
-    const CHUNK_SIZE = PROCESSING_CONSTANTS.CHUNK_SIZE;
+  // 指定したプリセット（省略時はすべて）をバージョン付きの JSON にする
+  async exportPresets(names?: string[]): Promise<string> {
+    const { collection } = await this.load();
+    const presets = names && names.length > 0
+      ? collection.presets.filter(preset => names.includes(preset.name))
+      : collection.presets;
+
+    return JSON.stringify({
+      format: PROCESSING_CONSTANTS.CONFIG_EXPORT_FORMAT,
+      version: PROCESSING_CONSTANTS.CONFIG_SCHEMA_VERSION,
+      presets
+    }, null, 2);
+  }
 
+  // 書き出した JSON を検証・移行して取り込む。問題のあるプリセットは取り込まずにエラーとして返す
+  async importPresets(json: string): Promise<PresetImportResult> {
+    let data: Record<string, unknown>;
     try {
-      const { processable, issues } = await this.fontManager.validateNodesForProcessing(
-        nodesToProcess.map(r => r.node)
-      );
+      data = JSON.parse(json);
+    } catch {
+      return { imported: [], errors: ['JSONとして読み込めませんでした'] };
+    }
 
-      for (const issue of issues) {
-        results.push({
-          node: issue.node,
-          success: false,
-          error: issue.reason
-        });
+    if (!data || typeof data !== 'object' || data.format !== PROCESSING_CONSTANTS.CONFIG_EXPORT_FORMAT || !Array.isArray(data.presets)) {
+      return { imported: [], errors: ['Line Break Cleaner のプリセットファイルではありません'] };
+    }
+
+    const version = typeof data.version === 'number' ? data.version : 1;
+    const imported: ConfigPreset[] = [];
+    const errors: string[] = [];
+
+    for (const preset of data.presets as Partial<ConfigPreset>[]) {
+      const name = typeof preset?.name === 'string' ? preset.name.trim() : '';
+      if (!name) {
+        errors.push('名前のないプリセットは取り込めません');
+        continue;
       }
 
-      for (let i = 0; i < processable.length; i += CHUNK_SIZE) {
-        const chunk = processable.slice(i, i + CHUNK_SIZE);
+      let result: ConfigValidationResult;
+      try {
+        result = this.readConfig(preset.config, version);
+      } catch (error) {
+        return { imported: [], errors: [error instanceof Error ? error.message : String(error)] };
+      }
 
-        for (let j = 0; j < chunk.length; j++) {
-          const node = chunk[j];
-          const _currentIndex = i + j;
+      if (result.config) {
+        imported.push({ name, config: result.config });
+      } else {
+        errors.push(`プリセット「${name}」: ${result.errors.join(' / ')}`);
+      }
+    }
 
-          try {
-            const analysisResult = analysisResults.find(r => r.node.id === node.id);
-            if (!analysisResult || analysisResult.issues.length === 0) {
-              continue;
-            }
+    if (imported.length > 0) {
+      const { collection } = await this.load();
+      const importedNames = new Set(imported.map(preset => preset.name));
+      const presets = [...collection.presets.filter(preset => !importedNames.has(preset.name)), ...imported];
+      await this.write({ ...collection, activePreset: imported[0].name, presets });
+    }
 
-            const changes = this.processor.generateChanges(
-              analysisResult.originalText,
-              analysisResult.issues,
-              node
-            );
+    return { imported: imported.map(preset => preset.name), errors };
+  }
 
-            await this.fontManager.applyChangesToNode(node, changes);
+  private readConfig(raw: unknown, version: number): ConfigValidationResult {
+    return ConfigSchema.validate(ConfigSchema.migrate(raw, version));
+  }
 
-            results.push({
-              node,
-              success: true,
-              changes
-            });
+  private async createFromLegacyConfig(warnings: string[]): Promise<PresetCollection> {
+    let config: ProcessingConfig = { ...DEFAULT_CONFIG };
 
-          } catch (error) {
-            results.push({
-              node,
-              success: false,
-              error: error instanceof Error ? error.message : 'Unknown error'
-            });
-          }
+    try {
+      const legacy = await figma.clientStorage.getAsync(PROCESSING_CONSTANTS.CONFIG_STORAGE_KEYS.LEGACY_CONFIG);
+      if (legacy) {
+        const result = this.readConfig(legacy, 1);
+        if (result.config) {
+          config = result.config;
+        } else {
+          warnings.push(`以前の設定を読み込めなかったため、デフォルト設定を使用します: ${result.errors.join(' / ')}`);
         }
       }
-
     } catch (error) {
-      throw new Error(`Batch processing failed: ${error}`);
-    } finally {
-      this.isProcessing = false;
+      console.warn('Failed to load legacy config:', error);
     }
 
-    return results;
+    return {
+      version: PROCESSING_CONSTANTS.CONFIG_SCHEMA_VERSION,
+      activePreset: PROCESSING_CONSTANTS.DEFAULT_PRESET_NAME,
+      presets: [{ name: PROCESSING_CONSTANTS.DEFAULT_PRESET_NAME, config }]
+    };
   }
 
-  async scanCurrentPage(): Promise<TextAnalysisResult[]> {
-    const allNodes = this.analyzer.findTextNodes();
-
-    return await this.analyzeNodes(allNodes);
+  private async write(collection: PresetCollection): Promise<void> {
+    await figma.clientStorage.setAsync(PROCESSING_CONSTANTS.CONFIG_STORAGE_KEYS.PRESETS, collection);
   }
+}
 
-  async processIndividualNode(
-    node: TextNode,
-    forceChanges?: {
-      removeLineBreaks?: boolean;
-      convertSoftBreaks?: boolean;
+// ===== SHARED CONFIG STORE CLASS =====
+class SharedConfigStore {
+  // ファイルに保存された共有設定を読み込む。不正な設定は無視して警告を返す
+  read(): { state: SharedConfigState | null; warnings: string[] } {
+    const data = figma.root.getSharedPluginData(
+      PROCESSING_CONSTANTS.SHARED_CONFIG.NAMESPACE,
+      PROCESSING_CONSTANTS.SHARED_CONFIG.KEY
+    );
+    if (!data) {
+      return { state: null, warnings: [] };
     }
-  ): Promise<ProcessingResult> {
-    try {
-      const { processable, issues } = await this.fontManager.validateNodesForProcessing([node]);
-
-      if (processable.length === 0) {
-        return {
-          node,
-          success: false,
-          error: issues[0]?.reason || 'Node cannot be processed'
-        };
-      }
-
-      if (forceChanges) {
-        const changes: ProcessingChanges = {};
-        let processedText = node.characters;
-
-        const fontSize = SharedUtilities.getFontSize(node);
-        processedText = this.processor.processTextDirectly(processedText, node.width, fontSize, forceChanges);
 
-        if (forceChanges.removeLineBreaks && node.textAutoResize === 'WIDTH_AND_HEIGHT') {
-          changes.newAutoResize = 'HEIGHT';
-        }
-
-        if (processedText !== node.characters) {
-          changes.newText = processedText;
-        }
+    try {
+      const raw = JSON.parse(data) as Partial<SharedConfigState>;
+      const version = typeof raw.version === 'number' ? raw.version : 1;
+      const { config, errors } = ConfigSchema.validate(ConfigSchema.migrate(raw.config, version));
 
-        if (Object.keys(changes).length > 0) {
-          await this.fontManager.applyChangesToNode(node, changes);
-          return {
-            node,
-            success: true,
-            changes
-          };
-        }
+      if (!config) {
+        return { state: null, warnings: [`ファイル共有設定を読み込めないため、個人設定を使用します: ${errors.join(' / ')}`] };
       }
 
       return {
-        node,
-        success: true,
-        changes: {}
+        state: {
+          version: PROCESSING_CONSTANTS.CONFIG_SCHEMA_VERSION,
+          config,
+          locked: raw.locked === true,
+          lockedBy: raw.lockedBy,
+          updatedBy: raw.updatedBy,
+          updatedAt: typeof raw.updatedAt === 'number' ? raw.updatedAt : 0
+        },
+        warnings: []
       };
-
     } catch (error) {
-      return {
-        node,
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
+      const message = error instanceof Error ? error.message : String(error);
+      return { state: null, warnings: [`ファイル共有設定を読み込めないため、個人設定を使用します: ${message}`] };
     }
   }
 
+  static canEdit(state: SharedConfigState | null): boolean {
+    if (!state || !state.locked) return true;
+    return state.lockedBy?.id === SharedConfigStore.getCurrentUser().id;
+  }
 
+  write(config: ProcessingConfig): void {
+    const { state } = this.read();
+    this.assertEditable(state);
+
+    this.store({
+      version: PROCESSING_CONSTANTS.CONFIG_SCHEMA_VERSION,
+      config: { ...DEFAULT_CONFIG, ...config },
+      locked: state?.locked ?? false,
+      lockedBy: state?.lockedBy,
+      updatedBy: SharedConfigStore.getCurrentUser().name,
+      updatedAt: Date.now()
+    });
+  }
 
+  setLocked(locked: boolean): void {
+    const { state } = this.read();
+    if (!state) {
+      throw new Error('ファイル共有設定がありません');
+    }
+    this.assertEditable(state);
 
+    this.store({
+      ...state,
+      locked,
+      lockedBy: locked ? SharedConfigStore.getCurrentUser() : undefined
+    });
+  }
 
-}
+  clear(): void {
+    const { state } = this.read();
+    this.assertEditable(state);
 
-// ===== DEFAULT CONFIGURATION =====
-const DEFAULT_CONFIG: ProcessingConfig = {
-  minCharacters: 20,
-  lineBreakThreshold: 0.95,
-  softBreakChars: ['\u2028'],
-  fontWidthMultiplier: 1.0
-};
+    figma.root.setSharedPluginData(
+      PROCESSING_CONSTANTS.SHARED_CONFIG.NAMESPACE,
+      PROCESSING_CONSTANTS.SHARED_CONFIG.KEY,
+      ''
+    );
+  }
+
+  private assertEditable(state: SharedConfigState | null): void {
+    if (!SharedConfigStore.canEdit(state)) {
+      throw new Error(`ファイル共有設定は${state?.lockedBy?.name ?? '他のユーザー'}さんがロックしています`);
+    }
+  }
+
+  private store(state: SharedConfigState): void {
+    figma.root.setSharedPluginData(
+      PROCESSING_CONSTANTS.SHARED_CONFIG.NAMESPACE,
+      PROCESSING_CONSTANTS.SHARED_CONFIG.KEY,
+      JSON.stringify(state)
+    );
+  }
+
+  private static getCurrentUser(): { id: string; name: string } {
+    const user = figma.currentUser;
+    return { id: user?.id ?? '', name: user?.name ?? '' };
+  }
+}
 
 // ===== MAIN PLUGIN LOGIC =====
 let batchProcessor: BatchProcessor | null = null;
 let currentResults: TextAnalysisResult[] = [];
 let currentConfig: ProcessingConfig | null = null;
 
-async function loadConfig(): Promise<ProcessingConfig> {
-  try {
-    const saved = await figma.clientStorage.getAsync('line-break-cleaner-config');
-    if (!saved) return DEFAULT_CONFIG;
+const presetStore = new ConfigPresetStore();
+const sharedConfigStore = new SharedConfigStore();
 
-    // 有効な値のみをマージ（falsyな値はデフォルト値を使用）
-    return {
-      minCharacters: (typeof saved.minCharacters === 'number' && saved.minCharacters > 0)
-        ? saved.minCharacters : DEFAULT_CONFIG.minCharacters,
-      lineBreakThreshold: (typeof saved.lineBreakThreshold === 'number' && saved.lineBreakThreshold > 0)
-        ? saved.lineBreakThreshold : DEFAULT_CONFIG.lineBreakThreshold,
-      fontWidthMultiplier: (typeof saved.fontWidthMultiplier === 'number' && saved.fontWidthMultiplier > 0)
-        ? saved.fontWidthMultiplier : DEFAULT_CONFIG.fontWidthMultiplier,
-      softBreakChars: (Array.isArray(saved.softBreakChars) && saved.softBreakChars.length > 0)
-        ? saved.softBreakChars : DEFAULT_CONFIG.softBreakChars
-    };
-  } catch {
-    return DEFAULT_CONFIG;
+// 適用中の設定（ファイル共有設定があればそれ、なければ現在のプリセット）
+async function loadConfig(): Promise<ProcessingConfig> {
+  const { state } = sharedConfigStore.read();
+  if (state) {
+    return state.config;
   }
+
+  const { collection } = await presetStore.load();
+  return ConfigPresetStore.getActiveConfig(collection);
 }
 
-async function saveConfig(config: ProcessingConfig): Promise<void> {
+// 明示的な保存操作（幅の補正・フォントメトリクスの読み込み）で設定を保存し、保存できたかを返す
+// ファイル共有設定があればそちらを、なければ現在のプリセットを更新する。不正な値やロック中は保存せずに警告する
+async function saveConfig(config: ProcessingConfig): Promise<boolean> {
   try {
-    // UI から受け取った設定をデフォルト値とマージして保存
-    const mergedConfig = { ...DEFAULT_CONFIG, ...config };
-    await figma.clientStorage.setAsync('line-break-cleaner-config', mergedConfig);
+    const { errors } = ConfigSchema.validate(config);
+    if (errors.length > 0) {
+      figma.notify(`設定を保存できませんでした: ${errors.join(' / ')}`, {
+        error: true,
+        timeout: PROCESSING_CONSTANTS.NOTIFICATION_TIMEOUTS.ERROR
+      });
+      return false;
+    }
+
+    const { state } = sharedConfigStore.read();
+    if (state) {
+      if (!SharedConfigStore.canEdit(state)) {
+        figma.notify(`ファイル共有設定は${state.lockedBy?.name ?? '他のユーザー'}さんがロックしているため保存できませんでした`, {
+          error: true,
+          timeout: PROCESSING_CONSTANTS.NOTIFICATION_TIMEOUTS.ERROR
+        });
+        return false;
+      }
+      sharedConfigStore.write(config);
+      return true;
+    }
+
+    await presetStore.saveActive(config);
+    return true;
   } catch (error) {
     console.warn('Failed to save config:', error);
+    return false;
+  }
+}
+
+// 適用中の設定（ファイル共有設定があればそれ、なければ個人のプリセット）と、
+// プリセット一覧・ファイル共有設定の状態・読み込み時の警告を UI に送る
+async function sendConfigState(): Promise<void> {
+  const { collection, warnings: presetWarnings } = await presetStore.load();
+  const { state, warnings: sharedWarnings } = sharedConfigStore.read();
+  const warnings = [...sharedWarnings, ...presetWarnings];
+  const source: ConfigSource = state ? 'file' : 'personal';
+
+  if (warnings.length > 0) {
+    figma.notify(`設定の読み込みで${warnings.length}件の問題が見つかりました`, {
+      error: true,
+      timeout: PROCESSING_CONSTANTS.NOTIFICATION_TIMEOUTS.ERROR
+    });
   }
+
+  sendMessage({
+    type: 'config-loaded',
+    config: state ? state.config : ConfigPresetStore.getActiveConfig(collection),
+    source,
+    fileConfig: state ? {
+      locked: state.locked,
+      lockedBy: state.lockedBy?.name ?? null,
+      updatedBy: state.updatedBy ?? null,
+      canEdit: SharedConfigStore.canEdit(state)
+    } : null,
+    presets: collection.presets.map(preset => preset.name),
+    activePreset: collection.activePreset,
+    bundledFontMetrics: FontMetricRegistry.getBundledFamilies(),
+    warnings
+  });
 }
 
 function sendMessage(message: UIMessage): void {
   figma.ui.postMessage(message);
 }
 
-function getScanModeInfo(): { mode: string; details?: string } {
+function getScanModeInfo(scope: ScanScope = 'auto'): { mode: string; details?: string } {
+  if (scope === 'document') {
+    return { mode: 'ドキュメント全体', details: `${figma.root.children.length}ページ` };
+  }
+
   const selection = figma.currentPage.selection;
 
   if (selection.length === 0) {
@@ -1243,6 +4426,10 @@ function updateSelectionState(): void {
 }
 
 // ===== EVENT HANDLERS =====
+figma.on('close', () => {
+  batchProcessor?.disposeMeasurementProbe();
+});
+
 figma.on('selectionchange', () => {
   updateSelectionState();
   sendMessage({
@@ -1255,7 +4442,7 @@ figma.ui.onmessage = async (msg: UIMessage) => {
   try {
     switch (msg.type) {
       case 'scan':
-        await handleScan(msg.config as ProcessingConfig);
+        await handleScan(msg.config as ProcessingConfig, (msg.scope as ScanScope) || 'auto');
         break;
 
       case 'apply-selected':
@@ -1263,30 +4450,110 @@ figma.ui.onmessage = async (msg: UIMessage) => {
           removeLineBreaks?: boolean;
           convertSoftBreaks?: boolean;
           selectedNodeIds?: string[];
+          acceptedBreaks?: { [nodeId: string]: number[] };
+          componentActions?: { [nodeId: string]: ComponentAction };
         });
         break;
 
-      case 'select-nodes':
-        handleSelectNodes(msg.nodeIds as string[]);
+      case 'restore-originals':
+        await handleRestoreOriginals(
+          msg.config as ProcessingConfig,
+          msg.scope as RestoreScope,
+          msg.nodeIds as string[] | undefined
+        );
+        break;
+
+      case 'scan-variables':
+        await handleScanVariables(msg.config as ProcessingConfig, msg.layout as VariableReferenceLayout);
+        break;
+
+      case 'apply-variables':
+        await handleApplyVariables(
+          msg.config as ProcessingConfig,
+          msg.layout as VariableReferenceLayout,
+          msg.entries as { variableId: string; modeId: string }[]
+        );
+        break;
+
+      case 'test-break-rules':
+        handleTestBreakRules(msg.config as ProcessingConfig, msg.sample as string);
+        break;
+
+      case 'set-ignored':
+        await handleSetIgnored(
+          msg.config as ProcessingConfig,
+          msg.ignored as boolean,
+          msg.nodeIds as string[] | undefined
+        );
+        break;
+
+      case 'calibrate-widths':
+        await handleCalibrateWidths(msg.config as ProcessingConfig);
+        break;
+
+      case 'import-font-metrics':
+        await handleImportFontMetrics(msg.config as ProcessingConfig, msg.json as string);
+        break;
+
+      case 'export-report':
+        await handleExportReport(msg.config as ProcessingConfig, msg.format as ReportFormat);
+        break;
+
+      case 'select-nodes':
+        await handleSelectNodes(msg.nodeIds as string[]);
+        break;
+
+      case 'get-current-selection':
+        updateSelectionState();
+        break;
+
+      case 'load-config':
+        await sendConfigState();
+        break;
+
+      case 'switch-preset':
+        await presetStore.switchPreset(msg.name as string);
+        await sendConfigState();
+        break;
+
+      case 'save-preset':
+        await handleSavePreset(msg.name as string, msg.config as ProcessingConfig);
         break;
 
-      case 'get-current-selection':
-        updateSelectionState();
+      case 'delete-preset':
+        await presetStore.deletePreset(msg.name as string);
+        await sendConfigState();
         break;
 
-      case 'load-config': {
-        const config = await loadConfig();
+      case 'export-presets':
         sendMessage({
-          type: 'config-loaded',
-          config
+          type: 'presets-exported',
+          json: await presetStore.exportPresets(msg.names as string[] | undefined)
         });
         break;
-      }
+
+      case 'import-presets':
+        await handleImportPresets(msg.json as string);
+        break;
+
+      case 'save-file-config':
+        await handleSaveFileConfig(msg.config as ProcessingConfig);
+        break;
+
+      case 'remove-file-config':
+        sharedConfigStore.clear();
+        await sendConfigState();
+        break;
+
+      case 'set-file-config-lock':
+        sharedConfigStore.setLocked(msg.locked as boolean);
+        await sendConfigState();
+        break;
 
       case 'get-scan-mode':
         sendMessage({
           type: 'scan-mode-info',
-          ...getScanModeInfo()
+          ...getScanModeInfo((msg.scope as ScanScope) || 'auto')
         });
         break;
 
@@ -1310,11 +4577,20 @@ function isConfigChanged(oldConfig: ProcessingConfig | null, newConfig: Processi
     oldConfig.lineBreakThreshold !== newConfig.lineBreakThreshold ||
     oldConfig.fontWidthMultiplier !== newConfig.fontWidthMultiplier ||
     oldConfig.softBreakChars.length !== newConfig.softBreakChars.length ||
-    oldConfig.softBreakChars.some((char, i) => char !== newConfig.softBreakChars[i])
+    oldConfig.softBreakChars.some((char, i) => char !== newConfig.softBreakChars[i]) ||
+    JSON.stringify(oldConfig.breakRules ?? []) !== JSON.stringify(newConfig.breakRules ?? []) ||
+    JSON.stringify(oldConfig.fontCalibrations ?? []) !== JSON.stringify(newConfig.fontCalibrations ?? []) ||
+    JSON.stringify(oldConfig.fontMetricProfiles ?? []) !== JSON.stringify(newConfig.fontMetricProfiles ?? []) ||
+    oldConfig.dehyphenate !== newConfig.dehyphenate
   );
 }
 
-function getBatchProcessor(config: ProcessingConfig): BatchProcessor {
+function getBatchProcessor(requestedConfig: ProcessingConfig, overrides: Partial<ProcessingConfig> = {}): BatchProcessor {
+  // ファイル共有設定があれば UI から送られた値より優先する（変更は「ファイル共有設定として保存」でのみ反映）
+  // クイックアクションのパラメータなど、実行時に指定された値は共有設定よりさらに優先する
+  const { state } = sharedConfigStore.read();
+  const config = { ...(state ? state.config : requestedConfig), ...overrides };
+
   // 設定が変更された場合のみ新しいインスタンスを作成
   if (!batchProcessor || isConfigChanged(currentConfig, config)) {
     batchProcessor = new BatchProcessor(config);
@@ -1323,15 +4599,16 @@ function getBatchProcessor(config: ProcessingConfig): BatchProcessor {
   return batchProcessor;
 }
 
-async function handleScan(config: ProcessingConfig): Promise<void> {
-  await saveConfig(config);
+async function handleScan(config: ProcessingConfig, scope: ScanScope): Promise<void> {
   const processor = getBatchProcessor(config);
 
   try {
-    currentResults = await processor.scanCurrentPage();
+    currentResults = scope === 'document'
+      ? await processor.scanDocument()
+      : await processor.scanCurrentPage();
 
     // スキャン完了通知
-    const issuesFound = currentResults.filter(r => r.issues && r.issues.length > 0).length;
+    const issuesFound = currentResults.filter(r => r.issues && TextAnalyzer.hasActionableIssues(r.issues)).length;
     if (issuesFound > 0) {
       figma.notify(`スキャン完了: ${issuesFound}つのテキストを検出`, {
         timeout: PROCESSING_CONSTANTS.NOTIFICATION_TIMEOUTS.COMPLETE
@@ -1345,7 +4622,7 @@ async function handleScan(config: ProcessingConfig): Promise<void> {
     sendMessage({
       type: 'scan-complete',
       results: currentResults,
-      scanInfo: getScanModeInfo()
+      scanInfo: getScanModeInfo(scope)
     });
 
   } catch (error) {
@@ -1366,8 +4643,9 @@ async function handleApplySelected(config: ProcessingConfig, options: {
   removeLineBreaks?: boolean;
   convertSoftBreaks?: boolean;
   selectedNodeIds?: string[];
+  acceptedBreaks?: { [nodeId: string]: number[] };
+  componentActions?: { [nodeId: string]: ComponentAction };
 }): Promise<void> {
-  await saveConfig(config);
   const processor = getBatchProcessor(config);
 
   try {
@@ -1377,9 +4655,8 @@ async function handleApplySelected(config: ProcessingConfig, options: {
     // スキャン結果からUIで選択されたノードも取得
     // （この情報はUI側から送信される必要があるため、現在は空配列）
     const scanSelectedNodeIds = options.selectedNodeIds || [];
-    const scanSelectedNodes = scanSelectedNodeIds
-      .map((id: string) => figma.currentPage.findOne(node => node.id === id && node.type === 'TEXT'))
-      .filter((node: SceneNode | null) => node !== null) as TextNode[];
+    const scanSelectedNodes = (await SharedUtilities.findSceneNodesById(scanSelectedNodeIds))
+      .filter(node => node.type === 'TEXT') as TextNode[];
 
     // 重複を除去して全処理対象ノードを取得
     const allNodesToProcess = new Map<string, TextNode>();
@@ -1395,7 +4672,6 @@ async function handleApplySelected(config: ProcessingConfig, options: {
     });
 
     const totalNodes = allNodesToProcess.size;
-    let processedCount = 0;
 
     if (totalNodes === 0) {
       sendMessage({
@@ -1412,16 +4688,8 @@ async function handleApplySelected(config: ProcessingConfig, options: {
     });
 
     // 全ノードをユーザーオプションに従って処理
-    for (const node of allNodesToProcess.values()) {
-      const result = await processor.processIndividualNode(node, {
-        removeLineBreaks: options.removeLineBreaks,
-        convertSoftBreaks: options.convertSoftBreaks
-      });
-
-      if (result.success) {
-        processedCount++;
-      }
-    }
+    const results = await cleanTextNodes(processor, Array.from(allNodesToProcess.values()), options);
+    const processedCount = results.filter(result => result.success).length;
 
     figma.notify(`クリーニング完了！${processedCount}つのテキストを処理しました`, {
       timeout: PROCESSING_CONSTANTS.NOTIFICATION_TIMEOUTS.COMPLETE
@@ -1438,34 +4706,614 @@ async function handleApplySelected(config: ProcessingConfig, options: {
       type: 'error',
       message: error instanceof Error ? error.message : 'Processing failed'
     });
+  } finally {
+    processor.disposeMeasurementProbe();
+  }
+}
+
+// 各ノードをコンポーネントの処理方法に従ってクリーニングする
+// 同じメインコンポーネントを複数のインスタンスから修正しないよう、処理済みのノードIDを記録する
+async function cleanTextNodes(
+  processor: BatchProcessor,
+  nodes: TextNode[],
+  options: {
+    removeLineBreaks?: boolean;
+    convertSoftBreaks?: boolean;
+    acceptedBreaks?: { [nodeId: string]: number[] };
+    componentActions?: { [nodeId: string]: ComponentAction };
+  }
+): Promise<ProcessingResult[]> {
+  const results: ProcessingResult[] = [];
+  const processedTargetIds = new Set<string>();
+
+  for (const node of nodes) {
+    // メインコンポーネントの編集は他のインスタンスにも影響するため、明示的に選ばれた場合のみ行う
+    const action = options.componentActions?.[node.id] ?? 'clean';
+    const targetId = await processor.getComponentSourceId(node, action);
+    if (processedTargetIds.has(targetId)) {
+      continue;
+    }
+    processedTargetIds.add(targetId);
+
+    results.push(await processor.processComponentText(node, action, {
+      removeLineBreaks: options.removeLineBreaks,
+      convertSoftBreaks: options.convertSoftBreaks,
+      acceptedBreaks: getReviewedBreaks(node, options.acceptedBreaks)
+    }));
+  }
+
+  return results;
+}
+
+// スキャン後にテキストが変わっていない場合のみ、レビュー済みの改行位置を使用する
+function getReviewedBreaks(node: TextNode, acceptedBreaks?: { [nodeId: string]: number[] }): number[] | undefined {
+  const reviewed = acceptedBreaks?.[node.id];
+  if (!reviewed) return undefined;
+
+  const scanned = currentResults.find(result => result.node.id === node.id);
+  if (!scanned || scanned.originalText !== node.characters) {
+    return undefined;
+  }
+
+  return reviewed;
+}
+
+async function handleScanVariables(config: ProcessingConfig, layout: VariableReferenceLayout): Promise<void> {
+  const processor = getBatchProcessor(config);
+
+  try {
+    const results = await processor.scanVariables(layout);
+
+    figma.notify(`変数スキャン完了: ${results.length}件の値を検出`, {
+      timeout: PROCESSING_CONSTANTS.NOTIFICATION_TIMEOUTS.COMPLETE
+    });
+
+    sendMessage({
+      type: 'variables-scan-complete',
+      results
+    });
+
+  } catch (error) {
+    sendMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Variable scan failed'
+    });
+  }
+}
+
+async function handleApplyVariables(
+  config: ProcessingConfig,
+  layout: VariableReferenceLayout,
+  entries: { variableId: string; modeId: string }[]
+): Promise<void> {
+  const processor = getBatchProcessor(config);
+
+  try {
+    const updatedCount = await processor.applyVariables(entries, layout);
+
+    figma.notify(`クリーニング完了！${updatedCount}件の変数の値を更新しました`, {
+      timeout: PROCESSING_CONSTANTS.NOTIFICATION_TIMEOUTS.COMPLETE
+    });
+
+    sendMessage({
+      type: 'variables-apply-complete',
+      updatedCount
+    });
+
+  } catch (error) {
+    sendMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Variable update failed'
+    });
+  }
+}
+
+// 設定画面のテスト欄：ルールの検証結果、各改行にどのルールが一致するかと、ルールのみを適用した結果を返す
+function handleTestBreakRules(config: ProcessingConfig, sample: string): void {
+  const rules = config.breakRules ?? [];
+  const errors = rules
+    .map((rule, index) => ({ index, message: BreakRuleSet.validate(rule) }))
+    .filter(error => error.message !== null);
+
+  const ruleSet = new BreakRuleSet(rules);
+  const lines = sample.split('\n');
+  const matchedRules = lines.slice(0, -1).map((line, i) => ruleSet.match(line, lines[i + 1]));
+
+  const matches = matchedRules.map((rule, i) => ({
+    lineBefore: lines[i],
+    lineAfter: lines[i + 1],
+    ruleName: rule?.name ?? null,
+    action: rule?.action ?? null
+  }));
+
+  sendMessage({
+    type: 'break-rules-test-result',
+    errors,
+    matches,
+    output: TextProcessor.applyBreakRules(sample, ruleSet, !!config.dehyphenate)
+  });
+}
+
+async function handleSavePreset(name: string, config: ProcessingConfig): Promise<void> {
+  const presetName = (name || '').trim();
+  if (!presetName) {
+    sendMessage({
+      type: 'warning',
+      message: 'プリセット名を入力してください'
+    });
+    return;
+  }
+
+  const { errors } = ConfigSchema.validate(config);
+  if (errors.length > 0) {
+    sendMessage({
+      type: 'warning',
+      message: `プリセットを保存できませんでした: ${errors.join(' / ')}`
+    });
+    return;
+  }
+
+  await presetStore.savePreset(presetName, config);
+  figma.notify(`プリセット「${presetName}」を保存しました`, {
+    timeout: PROCESSING_CONSTANTS.NOTIFICATION_TIMEOUTS.COMPLETE
+  });
+  await sendConfigState();
+}
+
+async function handleSaveFileConfig(config: ProcessingConfig): Promise<void> {
+  const { errors } = ConfigSchema.validate(config);
+  if (errors.length > 0) {
+    sendMessage({
+      type: 'warning',
+      message: `ファイル共有設定を保存できませんでした: ${errors.join(' / ')}`
+    });
+    return;
+  }
+
+  sharedConfigStore.write(config);
+  figma.notify('現在の設定をファイル共有設定として保存しました', {
+    timeout: PROCESSING_CONSTANTS.NOTIFICATION_TIMEOUTS.COMPLETE
+  });
+  await sendConfigState();
+}
+
+async function handleImportPresets(json: string): Promise<void> {
+  const result = await presetStore.importPresets(json);
+
+  if (result.imported.length > 0) {
+    figma.notify(`${result.imported.length}件のプリセットを読み込みました`, {
+      timeout: PROCESSING_CONSTANTS.NOTIFICATION_TIMEOUTS.COMPLETE
+    });
+  }
+
+  // 設定の反映後に取り込み結果を送り、エラー表示が上書きされないようにする
+  await sendConfigState();
+  sendMessage({
+    type: 'presets-imported',
+    imported: result.imported,
+    errors: result.errors
+  });
+}
+
+async function handleRestoreOriginals(
+  config: ProcessingConfig,
+  scope: RestoreScope,
+  nodeIds?: string[]
+): Promise<void> {
+  const processor = getBatchProcessor(config);
+
+  try {
+    const results = await processor.restoreOriginals(scope, nodeIds);
+    const restoredCount = results.filter(result => result.success).length;
+
+    if (results.length === 0) {
+      sendMessage({
+        type: 'warning',
+        message: '復元できるテキストが見つかりません'
+      });
+    } else {
+      figma.notify(`復元完了：${restoredCount}つのテキストを元に戻しました`, {
+        timeout: PROCESSING_CONSTANTS.NOTIFICATION_TIMEOUTS.COMPLETE
+      });
+    }
+
+    // 復元済みのノードはスキャン結果上の記録フラグを外す
+    const restoredIds = new Set(results.filter(result => result.success).map(result => result.node.id));
+    currentResults.forEach(result => {
+      if (restoredIds.has(result.node.id)) {
+        result.hasStoredOriginal = false;
+      }
+    });
+
+    sendMessage({
+      type: 'restore-complete',
+      restoredCount,
+      restoredNodeIds: Array.from(restoredIds)
+    });
+
+  } catch (error) {
+    sendMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Restore failed'
+    });
+  }
+}
+
+// 求めた補正係数を既存の係数と置き換えて（同じフォントのみ）設定に保存する
+async function calibrateAndSave(config: ProcessingConfig): Promise<{ calibrations: FontCalibration[]; saved: boolean }> {
+  const calibrations = await getBatchProcessor(config).calibrateWidths();
+  if (calibrations.length === 0) {
+    return { calibrations, saved: false };
+  }
+
+  const calibratedFonts = new Set(calibrations.map(item => JSON.stringify([item.family, item.style])));
+  const fontCalibrations = [
+    ...(config.fontCalibrations ?? []).filter(item => !calibratedFonts.has(JSON.stringify([item.family, item.style]))),
+    ...calibrations
+  ];
+
+  const saved = await saveConfig({ ...config, fontCalibrations });
+  return { calibrations, saved };
+}
+
+async function handleCalibrateWidths(config: ProcessingConfig): Promise<void> {
+  try {
+    const { calibrations, saved } = await calibrateAndSave(config);
+
+    // 保存できなかった場合は saveConfig が警告を通知する
+    if (calibrations.length === 0) {
+      figma.notify('幅の補正に使える1行のテキストが見つかりませんでした', {
+        timeout: PROCESSING_CONSTANTS.NOTIFICATION_TIMEOUTS.COMPLETE
+      });
+    } else if (saved) {
+      figma.notify(`幅の補正完了: ${calibrations.length}つのフォントの補正係数を保存しました`, {
+        timeout: PROCESSING_CONSTANTS.NOTIFICATION_TIMEOUTS.COMPLETE
+      });
+    }
+
+    await sendConfigState();
+    sendMessage({
+      type: 'calibration-complete',
+      calibrations
+    });
+
+  } catch (error) {
+    sendMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Calibration failed'
+    });
+  }
+}
+
+// 読み込んだプロファイルで同じフォントの既存プロファイルを置き換えて設定に保存する
+async function handleImportFontMetrics(config: ProcessingConfig, json: string): Promise<void> {
+  const { profiles, errors } = FontMetricRegistry.parse(json);
+
+  if (profiles.length > 0) {
+    const profileKey = (profile: FontMetricProfile) => JSON.stringify([profile.family, profile.style ?? null]);
+    const importedKeys = new Set(profiles.map(profileKey));
+    const fontMetricProfiles = [
+      ...(config.fontMetricProfiles ?? []).filter(profile => !importedKeys.has(profileKey(profile))),
+      ...profiles
+    ];
+
+    if (await saveConfig({ ...config, fontMetricProfiles })) {
+      figma.notify(`${profiles.length}件のフォントメトリクスを読み込みました`, {
+        timeout: PROCESSING_CONSTANTS.NOTIFICATION_TIMEOUTS.COMPLETE
+      });
+    } else {
+      errors.push('設定を保存できなかったため、フォントメトリクスは読み込まれていません');
+    }
+  }
+
+  await sendConfigState();
+  sendMessage({
+    type: 'font-metrics-imported',
+    imported: profiles.map(profile => profile.style ? `${profile.family} ${profile.style}` : profile.family),
+    errors
+  });
+}
+
+async function handleExportReport(config: ProcessingConfig, format: ReportFormat): Promise<void> {
+  if (currentResults.length === 0) {
+    sendMessage({
+      type: 'warning',
+      message: '書き出すスキャン結果がありません'
+    });
+    return;
+  }
+
+  const processor = getBatchProcessor(config);
+
+  try {
+    const report = await processor.buildReport(currentResults);
+    const timestamp = report.generatedAt.replace(/[-:]/g, '').replace(/\..*$/, '');
+
+    sendMessage({
+      type: 'report-exported',
+      fileName: `line-break-report-${timestamp}.${format}`,
+      mimeType: format === 'csv' ? 'text/csv' : 'application/json',
+      content: format === 'csv' ? ScanReportBuilder.toCsv(report) : ScanReportBuilder.toJson(report)
+    });
+
+  } catch (error) {
+    sendMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Report export failed'
+    });
   }
 }
 
-function handleSelectNodes(nodeIds: string[]): void {
-  const nodes = nodeIds
-    .map(id => figma.currentPage.findOne(node => node.id === id))
-    .filter(node => node !== null);
+// 指定したノード（省略時は選択中の要素）に無視指定を設定・解除し、スキャン結果を更新する
+async function handleSetIgnored(config: ProcessingConfig, ignored: boolean, nodeIds?: string[]): Promise<void> {
+  const targets = nodeIds ? await SharedUtilities.findSceneNodesById(nodeIds) : figma.currentPage.selection;
+
+  if (targets.length === 0) {
+    sendMessage({
+      type: 'warning',
+      message: '無視を設定する要素が選択されていません'
+    });
+    return;
+  }
+
+  targets.forEach(node => IgnoreMarkers.setIgnored(node, ignored));
+
+  // 指定の変わったスキャン結果だけを分析し直す
+  const processor = getBatchProcessor(config);
+  const changed = currentResults.filter(result => !!IgnoreMarkers.find(result.node) !== !!result.ignored);
+  const reanalyzed = await processor.analyzeNodes(changed.map(result => result.node));
+  currentResults = currentResults.map(result => reanalyzed.find(updated => updated.node.id === result.node.id) ?? result);
+
+  figma.notify(ignored
+    ? `${targets.length}つの要素をスキャン対象外にしました`
+    : `${targets.length}つの要素の無視を解除しました`, {
+    timeout: PROCESSING_CONSTANTS.NOTIFICATION_TIMEOUTS.COMPLETE
+  });
+
+  sendMessage({
+    type: 'ignore-updated',
+    results: currentResults
+  });
+}
+
+async function handleSelectNodes(nodeIds: string[]): Promise<void> {
+  const nodes = await SharedUtilities.findSceneNodesById(nodeIds);
+
+  // 現在のページに対象がない場合は、最初のノードのページへ切り替える
+  let targetPage = figma.currentPage;
+  if (nodes.length > 0 && !nodes.some(node => SharedUtilities.getPage(node) === figma.currentPage)) {
+    const page = SharedUtilities.getPage(nodes[0]);
+    if (page) {
+      await figma.setCurrentPageAsync(page);
+      targetPage = page;
+    }
+  }
 
-  figma.currentPage.selection = nodes;
+  figma.currentPage.selection = nodes.filter(node => SharedUtilities.getPage(node) === targetPage);
 
   if (nodes.length > 0) {
     // figma.viewport.scrollAndZoomIntoView(nodes);
   }
 }
 
-// ===== PLUGIN INITIALIZATION =====
-figma.showUI(__html__, {
-  width: 320,
-  height: 600
+// ===== HEADLESS COMMANDS =====
+// UI を開かずに保存済みの設定で実行し、結果を通知して終了する
+// 設定の読み込みに失敗した場合も、エラーを通知してプラグインを必ず終了する
+async function runHeadlessCommand(command: string, parameters?: QuickActionParameters): Promise<void> {
+  let processor: BatchProcessor | null = null;
+
+  try {
+    const overrides = parameters?.threshold !== undefined ? { lineBreakThreshold: parameters.threshold } : {};
+    processor = getBatchProcessor(await loadConfig(), overrides);
+
+    const message = parameters
+      ? await executeQuickAction(parameters, processor)
+      : await executeHeadlessCommand(command, processor);
+    figma.notify(message, {
+      timeout: PROCESSING_CONSTANTS.NOTIFICATION_TIMEOUTS.COMPLETE
+    });
+  } catch (error) {
+    figma.notify(`エラー: ${error instanceof Error ? error.message : 'Unknown error occurred'}`, {
+      error: true,
+      timeout: PROCESSING_CONSTANTS.NOTIFICATION_TIMEOUTS.ERROR
+    });
+  } finally {
+    processor?.disposeMeasurementProbe();
+    figma.closePlugin();
+  }
+}
+
+function handleHeadlessFailure(error: unknown): void {
+  figma.closePlugin(`エラー: ${error instanceof Error ? error.message : 'Unknown error occurred'}`);
+}
+
+async function executeHeadlessCommand(command: string, processor: BatchProcessor): Promise<string> {
+  const { COMMANDS } = PROCESSING_CONSTANTS;
+
+  switch (command) {
+    case COMMANDS.SCAN_REPORT: {
+      const results = await processor.scanCurrentPage();
+      const issuesFound = results.filter(result => TextAnalyzer.hasActionableIssues(result.issues)).length;
+      const ignoredCount = results.filter(result => result.ignored).length;
+      const ignoredLabel = ignoredCount > 0 ? `、${ignoredCount}つは無視中` : '';
+
+      return issuesFound > 0
+        ? `スキャン完了: ${results.length}つのテキストのうち${issuesFound}つに不要な改行があります${ignoredLabel}`
+        : `スキャン完了: 対象となるテキストは見つかりませんでした${ignoredLabel}`;
+    }
+
+    case COMMANDS.CLEAN_SELECTION:
+    case COMMANDS.RECLEAN:
+    case COMMANDS.CONVERT_SOFT_BREAKS: {
+      const nodes = processor.findSelectedTextNodes();
+      if (nodes.length === 0) {
+        return 'クリーニングするテキストを選択してください';
+      }
+
+      const softBreaksOnly = command === COMMANDS.CONVERT_SOFT_BREAKS;
+      const results = await cleanTextNodes(processor, nodes, {
+        removeLineBreaks: !softBreaksOnly,
+        convertSoftBreaks: true
+      });
+      const changedCount = results.filter(result => result.success && Object.keys(result.changes ?? {}).length > 0).length;
+      const failedCount = results.filter(result => !result.success).length;
+      const failedLabel = failedCount > 0 ? `（${failedCount}つは処理できませんでした）` : '';
+
+      return softBreaksOnly
+        ? `ソフト改行の変換完了: ${changedCount}つのテキストを変更しました${failedLabel}`
+        : `クリーニング完了: ${changedCount}つのテキストを変更しました${failedLabel}`;
+    }
+
+    case COMMANDS.CALIBRATE: {
+      const { calibrations, saved } = await calibrateAndSave(await loadConfig());
+      if (calibrations.length === 0) {
+        return '幅の補正に使える1行のテキストが見つかりませんでした';
+      }
+
+      const summary = calibrations.map(item => `${item.family} ${item.style} ×${item.factor}`).join('、');
+      return saved
+        ? `幅の補正完了: ${summary}`
+        : `幅の補正係数を保存できませんでした: ${summary}`;
+    }
+
+    case COMMANDS.RESTORE_ORIGINALS: {
+      const scope: RestoreScope = figma.currentPage.selection.length > 0 ? 'selection' : 'page';
+      const results = await processor.restoreOriginals(scope);
+      const restoredCount = results.filter(result => result.success).length;
+
+      return results.length === 0
+        ? '復元できるテキストが見つかりません'
+        : `復元完了：${restoredCount}つのテキストを元に戻しました`;
+    }
+
+    default:
+      throw new Error(`不明なコマンドです: ${command}`);
+  }
+}
+
+// クイックアクション：対象範囲をスキャンし、クリーニング対象のテキストだけを指定の内容で処理する
+async function executeQuickAction(parameters: QuickActionParameters, processor: BatchProcessor): Promise<string> {
+  const nodes = await processor.findTextNodesInScope(parameters.scope);
+  if (nodes.length === 0) {
+    return parameters.scope === 'selection'
+      ? 'クリーニングするテキストを選択してください'
+      : '対象となるテキストは見つかりませんでした';
+  }
+
+  const results = await processor.analyzeNodes(nodes);
+  const targets = results
+    .filter(result => TextAnalyzer.hasActionableIssues(result.issues))
+    .map(result => result.node);
+
+  const cleaned = await cleanTextNodes(processor, targets, {
+    removeLineBreaks: parameters.mode !== 'convert-soft-breaks',
+    convertSoftBreaks: parameters.mode !== 'remove-breaks'
+  });
+  const changedCount = cleaned.filter(result => result.success && Object.keys(result.changes ?? {}).length > 0).length;
+  const failedCount = cleaned.filter(result => !result.success).length;
+  const failedLabel = failedCount > 0 ? `（${failedCount}つは処理できませんでした）` : '';
+
+  return `クリーニング完了: ${nodes.length}つのテキストのうち${changedCount}つを変更しました${failedLabel}`;
+}
+
+// ===== QUICK ACTION PARAMETERS =====
+const QUICK_ACTION_MODES: { name: string; data: CleanMode }[] = [
+  { name: '改行除去とソフト改行の変換', data: 'both' },
+  { name: '改行除去のみ', data: 'remove-breaks' },
+  { name: 'ソフト改行の変換のみ', data: 'convert-soft-breaks' }
+];
+
+const QUICK_ACTION_SCOPES: { name: string; data: QuickActionScope }[] = [
+  { name: '選択中の要素', data: 'selection' },
+  { name: '現在のページ', data: 'page' },
+  { name: 'ドキュメント全体', data: 'document' }
+];
+
+// 閾値は候補以外の値も入力できるよう、有効な入力値を先頭の候補として返す
+function getThresholdSuggestions(query: string, result: SuggestionResults): void {
+  const trimmed = query.trim();
+  const suggestions: { name: string; data: number }[] = PROCESSING_CONSTANTS.THRESHOLD_SUGGESTIONS
+    .filter(value => String(value).startsWith(trimmed))
+    .map(value => ({ name: String(value), data: value }));
+
+  if (trimmed === '') {
+    result.setSuggestions(suggestions);
+    return;
+  }
+
+  const value = Number(trimmed);
+  if (isNaN(value) || value < 0.1 || value > 1.0) {
+    result.setError('閾値は0.1〜1.0の数値で入力してください');
+    return;
+  }
+
+  if (!suggestions.some(suggestion => suggestion.data === value)) {
+    suggestions.unshift({ name: trimmed, data: value });
+  }
+  result.setSuggestions(suggestions);
+}
+
+figma.parameters.on('input', ({ key, query, result }: ParameterInputEvent) => {
+  const matches = (name: string) => name.toLowerCase().includes(query.toLowerCase());
+
+  switch (key) {
+    case 'mode':
+      result.setSuggestions(QUICK_ACTION_MODES.filter(mode => matches(mode.name)));
+      break;
+
+    case 'threshold':
+      getThresholdSuggestions(query, result);
+      break;
+
+    case 'scope': {
+      // 未選択の場合は「選択中の要素」を候補から外す
+      const scopes = figma.currentPage.selection.length > 0
+        ? QUICK_ACTION_SCOPES
+        : QUICK_ACTION_SCOPES.filter(scope => scope.data !== 'selection');
+      result.setSuggestions(scopes.filter(scope => matches(scope.name)));
+      break;
+    }
+  }
 });
 
-// Send initial state
-(async () => {
-  const config = await loadConfig();
-  sendMessage({
-    type: 'config-loaded',
-    config
+// ===== PLUGIN INITIALIZATION =====
+const HEADLESS_COMMANDS: string[] = [
+  PROCESSING_CONSTANTS.COMMANDS.SCAN_REPORT,
+  PROCESSING_CONSTANTS.COMMANDS.CLEAN_SELECTION,
+  PROCESSING_CONSTANTS.COMMANDS.CONVERT_SOFT_BREAKS,
+  PROCESSING_CONSTANTS.COMMANDS.RESTORE_ORIGINALS,
+  PROCESSING_CONSTANTS.COMMANDS.RECLEAN,
+  PROCESSING_CONSTANTS.COMMANDS.CALIBRATE
+];
+
+if (figma.command === PROCESSING_CONSTANTS.COMMANDS.QUICK_CLEAN) {
+  // パラメータの入力が完了すると run イベントで値を受け取る
+  figma.on('run', ({ command, parameters }: RunEvent) => {
+    runHeadlessCommand(command, parameters as QuickActionParameters).catch(handleHeadlessFailure);
+  });
+} else if (HEADLESS_COMMANDS.includes(figma.command)) {
+  runHeadlessCommand(figma.command).catch(handleHeadlessFailure);
+} else {
+  showPluginUI();
+}
+
+function showPluginUI(): void {
+  figma.showUI(__html__, {
+    width: 320,
+    height: 600
+  });
+
+  // Send initial state
+  initializeUI().catch(error => {
+    sendMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Failed to initialize'
+    });
   });
+}
+
+async function initializeUI(): Promise<void> {
+  await sendConfigState();
 
   sendMessage({
     type: 'scan-mode-info',
@@ -1473,4 +5321,4 @@ figma.showUI(__html__, {
   });
 
   updateSelectionState();
-})();
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadPlugin } = require('./load-plugin');
+
+const { BreakRuleSet, TextProcessor } = loadPlugin();
+
+function rule(overrides) {
+  return { name: 'ルール', lineEndPattern: '', nextLineStartPattern: '', action: 'keep', separator: '', enabled: true, ...overrides };
+}
+
+test('validate reports missing patterns, bad regular expressions and missing separators', () => {
+  assert.equal(BreakRuleSet.validate(rule({ lineEndPattern: '：' })), null);
+  assert.equal(BreakRuleSet.validate(rule({})), '行末または次の行頭のパターンを指定してください');
+  assert.equal(BreakRuleSet.validate(rule({ lineEndPattern: '(' })), '正規表現が正しくありません: (');
+  assert.equal(BreakRuleSet.validate(rule({ lineEndPattern: 'a', action: 'join', separator: undefined })), '区切り文字を指定してください');
+  assert.equal(BreakRuleSet.validate(rule({ lineEndPattern: 'a', action: 'drop' })), '不明なアクションです: drop');
+});
+
+test('match returns the first enabled rule matching the line end and next line start', () => {
+  const ruleSet = new BreakRuleSet([
+    rule({ name: '無効', lineEndPattern: '：', enabled: false }),
+    rule({ name: '不正', lineEndPattern: '(' }),
+    rule({ name: 'コロン', lineEndPattern: '：', nextLineStartPattern: '※' }),
+    rule({ name: '読点', lineEndPattern: '、', action: 'remove' })
+  ]);
+
+  assert.equal(ruleSet.match('注意：', '※必ずお読みください').name, 'コロン');
+  assert.equal(ruleSet.match('注意：', '本文'), null);
+  assert.equal(ruleSet.match('今日は、  ', '晴れ').name, '読点');
+});
+
+test('applyBreakRules joins matched breaks the same way as processing', () => {
+  const ruleSet = new BreakRuleSet([
+    rule({ name: '英単語', lineEndPattern: '[a-z]', action: 'remove' }),
+    rule({ name: 'スラッシュ', lineEndPattern: '価格', action: 'join', separator: '／' })
+  ]);
+
+  assert.equal(TextProcessor.applyBreakRules('Hello\nworld', ruleSet, false), 'Hello world');
+  assert.equal(TextProcessor.applyBreakRules('価格\n1,000円', ruleSet, false), '価格／1,000円');
+  assert.equal(TextProcessor.applyBreakRules('見出し\n本文', ruleSet, false), '見出し\n本文');
+  assert.equal(TextProcessor.applyBreakRules('infor-\nmation', new BreakRuleSet([rule({ lineEndPattern: '-', action: 'remove' })]), true), 'information');
+});
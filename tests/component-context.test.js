@@ -0,0 +1,111 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadPlugin } = require('./load-plugin');
+
+// メインコンポーネント M の中にネストしたインスタンス N があり、その中のテキスト t を
+// キャンバス上のインスタンス O から参照している構成
+function createTree() {
+  const nodes = new Map();
+  const add = node => {
+    nodes.set(node.id, node);
+    return node;
+  };
+
+  const page = add({ id: 'P', type: 'PAGE', parent: null });
+  const mainComponent = add({ id: 'M', type: 'COMPONENT', name: 'Card', parent: page, remote: false });
+  const nestedInMain = add({ id: 'N', type: 'INSTANCE', parent: mainComponent, overrides: [] });
+  add({ id: 'IN;t', type: 'TEXT', characters: 'メイン側で上書きした文言', parent: nestedInMain });
+  add({ id: 'c', type: 'TEXT', characters: '見出し', parent: mainComponent });
+
+  const outer = add({
+    id: 'O',
+    type: 'INSTANCE',
+    parent: page,
+    overrides: [],
+    getMainComponentAsync: async () => mainComponent
+  });
+  const nested = add({ id: 'IO;N', type: 'INSTANCE', parent: outer, overrides: [] });
+  const text = add({ id: 'IO;N;t', type: 'TEXT', characters: 'メイン側で上書きした文言', parent: nested });
+
+  return { nodes, text, mainComponent };
+}
+
+test('getSourceTextNode resolves a nested instance text through the outermost main component', async () => {
+  const { nodes, text } = createTree();
+  const { ComponentContextResolver } = loadPlugin({ getNodeByIdAsync: async id => nodes.get(id) ?? null });
+
+  const source = await new ComponentContextResolver().getSourceTextNode(text);
+  assert.equal(source.id, 'IN;t');
+});
+
+test('getSourceTextNode ignores nodes outside the main component', async () => {
+  const { nodes, text } = createTree();
+  nodes.set('IN;t', { id: 'IN;t', type: 'TEXT', characters: '', parent: nodes.get('P') });
+  const { ComponentContextResolver } = loadPlugin({ getNodeByIdAsync: async id => nodes.get(id) ?? null });
+
+  assert.equal(await new ComponentContextResolver().getSourceTextNode(text), null);
+});
+
+test('getSourceTextNode returns null for text that is not inside an instance', async () => {
+  const { nodes } = createTree();
+  const { ComponentContextResolver } = loadPlugin({ getNodeByIdAsync: async id => nodes.get(id) ?? null });
+
+  assert.equal(await new ComponentContextResolver().getSourceTextNode(nodes.get('c')), null);
+});
+
+// インスタンス O 内のテキストは、オーバーライドがなければメインコンポーネント M の文字列を表示する
+function createLiveInstance() {
+  const pluginData = () => ({ getPluginData: () => '', setPluginData() {} });
+  const page = { id: 'P', type: 'PAGE', parent: null };
+  const mainComponent = { id: 'M', type: 'COMPONENT', name: 'Card', parent: page, remote: false, ...pluginData() };
+  const source = { id: 'c', type: 'TEXT', characters: '見出し\nです', parent: mainComponent };
+
+  let override = null;
+  const instance = {
+    id: 'O',
+    type: 'INSTANCE',
+    name: 'Card',
+    parent: page,
+    ...pluginData(),
+    getMainComponentAsync: async () => mainComponent,
+    get overrides() {
+      return override === null ? [] : [{ id: 'IO;c', overriddenFields: ['characters'] }];
+    },
+    resetOverrides() {
+      override = null;
+    }
+  };
+  const text = {
+    id: 'IO;c',
+    type: 'TEXT',
+    name: 'title',
+    parent: instance,
+    fontName: { family: 'Inter', style: 'Regular' },
+    hasMissingFont: false,
+    locked: false,
+    visible: true,
+    ...pluginData(),
+    get characters() {
+      return override ?? source.characters;
+    }
+  };
+  override = '見出しです';
+
+  return { nodes: new Map([[source.id, source]]), source, text };
+}
+
+test('reset-override clears the override so the instance follows later main component changes', async () => {
+  const { nodes, source, text } = createLiveInstance();
+  const { BatchProcessor, DEFAULT_CONFIG } = loadPlugin({
+    getNodeByIdAsync: async id => nodes.get(id) ?? null,
+    loadFontAsync: async () => undefined
+  });
+
+  const result = await new BatchProcessor(DEFAULT_CONFIG).processComponentText(text, 'reset-override', {});
+  assert.equal(result.success, true);
+  assert.equal(result.changes.newText, '見出し\nです');
+  assert.equal(text.characters, '見出し\nです');
+
+  source.characters = '新しい見出し';
+  assert.equal(text.characters, '新しい見出し');
+});
@@ -0,0 +1,115 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadPlugin, toPlain } = require('./load-plugin');
+
+// clientStorage を Map で置き換え、保存内容を確認できるようにする
+function loadWithStorage(initial = {}) {
+  const storage = new Map(Object.entries(initial));
+  const plugin = loadPlugin({
+    clientStorage: {
+      getAsync: async key => storage.get(key),
+      setAsync: async (key, value) => {
+        storage.set(key, value);
+      }
+    }
+  });
+  return { plugin, storage };
+}
+
+const { plugin } = loadWithStorage();
+const { ConfigSchema, DEFAULT_CONFIG, PROCESSING_CONSTANTS } = plugin;
+const { PRESETS } = PROCESSING_CONSTANTS.CONFIG_STORAGE_KEYS;
+
+test('migrate adds break rules to version 1 configs and leaves current configs alone', () => {
+  assert.deepEqual(toPlain(ConfigSchema.migrate({ minCharacters: 10 }, 1)), { minCharacters: 10, breakRules: [] });
+
+  const current = { minCharacters: 10, breakRules: [{ name: 'a' }] };
+  assert.deepEqual(toPlain(ConfigSchema.migrate(current, 2)), current);
+});
+
+test('migrate rejects configs saved by a newer version', () => {
+  assert.throws(() => ConfigSchema.migrate({}, PROCESSING_CONSTANTS.CONFIG_SCHEMA_VERSION + 1), /プラグインを更新してください/);
+});
+
+test('validate accepts the default config and fills optional fields', () => {
+  const { config, errors } = ConfigSchema.validate({ minCharacters: 5, lineBreakThreshold: 0.9, softBreakChars: [' '] });
+  assert.deepEqual(toPlain(errors), []);
+  assert.equal(config.fontWidthMultiplier, DEFAULT_CONFIG.fontWidthMultiplier);
+  assert.equal(config.dehyphenate, DEFAULT_CONFIG.dehyphenate);
+  assert.deepEqual(toPlain(config.breakRules), []);
+
+  assert.deepEqual(toPlain(ConfigSchema.validate(toPlain(DEFAULT_CONFIG)).errors), []);
+});
+
+test('validate reports every out-of-range field instead of replacing it', () => {
+  const { config, errors } = ConfigSchema.validate({
+    minCharacters: 0,
+    lineBreakThreshold: 2,
+    softBreakChars: [],
+    fontWidthMultiplier: 3,
+    breakRules: [{ name: 'x', lineEndPattern: '(', action: 'keep' }]
+  });
+
+  assert.equal(config, null);
+  assert.deepEqual(toPlain(errors), [
+    '最小文字数は1〜1000の整数で指定してください',
+    '改行処理閾値は0.1〜1.0で指定してください',
+    'フォント幅係数は0.5〜1.5で指定してください',
+    'ソフト改行文字を1つ以上指定してください',
+    '改行ルール1: 正規表現が正しくありません: ('
+  ]);
+});
+
+test('load falls back to the default preset with a warning for presets from a newer version', async () => {
+  const { plugin } = loadWithStorage({
+    [PRESETS]: {
+      version: PROCESSING_CONSTANTS.CONFIG_SCHEMA_VERSION + 1,
+      activePreset: '新しい',
+      presets: [{ name: '新しい', config: toPlain(DEFAULT_CONFIG) }]
+    }
+  });
+
+  const { collection, warnings } = await new plugin.ConfigPresetStore().load();
+  assert.equal(collection.activePreset, PROCESSING_CONSTANTS.DEFAULT_PRESET_NAME);
+  assert.equal(warnings.length, 1);
+  assert.match(warnings[0], /プリセット「新しい」を読み込めませんでした/);
+});
+
+test('saveActive overwrites only the active preset', async () => {
+  const { plugin, storage } = loadWithStorage({
+    [PRESETS]: {
+      version: PROCESSING_CONSTANTS.CONFIG_SCHEMA_VERSION,
+      activePreset: 'B',
+      presets: [
+        { name: 'A', config: toPlain(DEFAULT_CONFIG) },
+        { name: 'B', config: toPlain(DEFAULT_CONFIG) }
+      ]
+    }
+  });
+
+  await new plugin.ConfigPresetStore().saveActive({ ...toPlain(DEFAULT_CONFIG), minCharacters: 42 });
+
+  const saved = toPlain(storage.get(PRESETS));
+  assert.equal(saved.activePreset, 'B');
+  assert.deepEqual(saved.presets.map(preset => [preset.name, preset.config.minCharacters]), [['A', DEFAULT_CONFIG.minCharacters], ['B', 42]]);
+});
+
+test('a quick action threshold overrides the file-shared config', async () => {
+  const shared = JSON.stringify({
+    version: PROCESSING_CONSTANTS.CONFIG_SCHEMA_VERSION,
+    config: { ...toPlain(DEFAULT_CONFIG), lineBreakThreshold: 0.9, minCharacters: 7 },
+    locked: false,
+    updatedAt: 0
+  });
+  const plugin = loadPlugin({
+    root: { getSharedPluginData: () => shared },
+    closePlugin() {}
+  });
+
+  await plugin.runHeadlessCommand('quick-clean', { mode: 'both', threshold: 0.8, scope: 'selection' });
+  assert.equal(plugin.currentConfig.lineBreakThreshold, 0.8);
+  assert.equal(plugin.currentConfig.minCharacters, 7);
+
+  await plugin.runHeadlessCommand(PROCESSING_CONSTANTS.COMMANDS.SCAN_REPORT);
+  assert.equal(plugin.currentConfig.lineBreakThreshold, 0.9);
+});
@@ -0,0 +1,30 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadPlugin } = require('./load-plugin');
+
+const { Dehyphenator } = loadPlugin();
+
+test('decide removes the hyphen when the joined word is in the word list', () => {
+  assert.equal(Dehyphenator.decide('infor-', 'mation'), 'joined');
+  assert.equal(Dehyphenator.join('the infor-', 'mation age'), 'the information age');
+  // 語形変化した語は原形で照合する
+  assert.equal(Dehyphenator.join('process-', 'ing'), 'processing');
+});
+
+test('decide keeps the hyphen for compounds and words the list cannot confirm', () => {
+  assert.equal(Dehyphenator.join('well-', 'known'), 'well-known');
+  assert.equal(Dehyphenator.join('x-', 'ray'), 'x-ray');
+  assert.equal(Dehyphenator.join('e-', 'commerce'), 'e-commerce');
+  assert.equal(Dehyphenator.join('T-', 'shirt'), 'T-shirt');
+});
+
+test('decide removes a line-end soft hyphen', () => {
+  assert.equal(Dehyphenator.decide('hyphen\u00AD', 'ation'), 'soft-hyphen');
+  assert.equal(Dehyphenator.join('hyphen\u00AD', 'ation'), 'hyphenation');
+});
+
+test('decide leaves lines that do not end in a hyphen before a lowercase word', () => {
+  assert.equal(Dehyphenator.decide('Figma-', 'Based'), null);
+  assert.equal(Dehyphenator.decide('Hello', 'world'), null);
+  assert.equal(Dehyphenator.join('2020-', '2024'), null);
+});
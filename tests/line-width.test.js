@@ -0,0 +1,57 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadPlugin } = require('./load-plugin');
+
+// フォントを読み込めない環境として、行幅は文字幅テーブルによる推定で計測させる
+const plugin = loadPlugin({
+  loadFontAsync: async () => {
+    throw new Error('fonts are not available in tests');
+  }
+});
+const { SharedUtilities, TextProcessor, FontManager, ComponentContextResolver, DEFAULT_CONFIG } = plugin;
+
+const style = {
+  fontName: { family: 'Inter', style: 'Regular' },
+  fontSize: 10,
+  letterSpacing: { unit: 'PIXELS', value: 0 }
+};
+
+function run(start, end, indent) {
+  return { start, end, style, indent };
+}
+
+test('getAvailableWidth subtracts the first-line indent only at a paragraph start', () => {
+  const runs = [run(0, 100, { firstLine: 20, list: 0 })];
+  assert.equal(SharedUtilities.getAvailableWidth(200, 0, runs, true), 180);
+  assert.equal(SharedUtilities.getAvailableWidth(200, 0, runs, false), 200);
+});
+
+test('getAvailableWidth subtracts the list indent on every line of the run at the line start', () => {
+  const runs = [run(0, 10, { firstLine: 0, list: 0 }), run(10, 20, { firstLine: 10, list: 30 })];
+  assert.equal(SharedUtilities.getAvailableWidth(200, 5, runs, true), 200);
+  assert.equal(SharedUtilities.getAvailableWidth(200, 12, runs, false), 170);
+  assert.equal(SharedUtilities.getAvailableWidth(200, 12, runs, true), 160);
+});
+
+test('getAvailableWidth keeps a tenth of the box when the indent is wider than the box', () => {
+  assert.equal(SharedUtilities.getAvailableWidth(100, 0, [run(0, 10, { firstLine: 200, list: 0 })], true), 10);
+});
+
+test('getLetterSpacingWidth handles percent and pixel spacing per character', () => {
+  assert.equal(SharedUtilities.getLetterSpacingWidth('abcd', { ...style, letterSpacing: { unit: 'PIXELS', value: 2 } }), 8);
+  assert.equal(SharedUtilities.getLetterSpacingWidth('abcd', { ...style, letterSpacing: { unit: 'PERCENT', value: 10 } }), 4);
+});
+
+test('evaluateBreakCandidates does not apply the first-line indent after a soft break', async () => {
+  const config = { ...DEFAULT_CONFIG, softBreakChars: ['\u2028'] };
+  const utils = new SharedUtilities(config, new FontManager(new ComponentContextResolver()));
+  const processor = new TextProcessor(config, utils);
+
+  const paragraph = 'first line\nnext';
+  const [afterHardBreak] = await processor.evaluateBreakCandidates(paragraph, 200, [run(0, paragraph.length, { firstLine: 20, list: 0 })]);
+  assert.equal(afterHardBreak.availableWidth, 180);
+
+  const continued = 'first\u2028second\nnext';
+  const [afterSoftBreak] = await processor.evaluateBreakCandidates(continued, 200, [run(0, continued.length, { firstLine: 20, list: 0 })]);
+  assert.equal(afterSoftBreak.availableWidth, 200);
+});
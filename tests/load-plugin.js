@@ -0,0 +1,45 @@
+// code.ts をトランスパイルし、figma グローバルを差し替えた VM コンテキストで読み込む
+// 起動時の処理はクイックアクション（run イベント待ち）として読み込ませ、UI の初期化を避ける
+const fs = require('node:fs');
+const path = require('node:path');
+const vm = require('node:vm');
+const ts = require('typescript');
+
+const source = fs.readFileSync(path.join(__dirname, '..', 'code.ts'), 'utf8');
+const { outputText } = ts.transpileModule(source, {
+  compilerOptions: { target: ts.ScriptTarget.ES2017, module: ts.ModuleKind.None }
+});
+
+function createFigmaStub(overrides = {}) {
+  return {
+    command: 'quick-clean',
+    mixed: Symbol('mixed'),
+    on() {},
+    ui: { postMessage() {} },
+    parameters: { on() {} },
+    notify() {},
+    root: { getSharedPluginData: () => '' },
+    currentPage: { selection: [] },
+    clientStorage: {
+      getAsync: async () => undefined,
+      setAsync: async () => undefined
+    },
+    ...overrides
+  };
+}
+
+// 読み込んだコンテキストからトップレベルのクラス・定数を名前で取り出す
+function loadPlugin(figmaOverrides) {
+  const context = vm.createContext({ figma: createFigmaStub(figmaOverrides), __html__: '', console });
+  vm.runInContext(outputText, context, { filename: 'code.js' });
+  return new Proxy({}, {
+    get: (_target, name) => vm.runInContext(String(name), context)
+  });
+}
+
+// VM 内で作られたオブジェクトはプロトタイプが異なるため、比較前に通常のオブジェクトへ変換する
+function toPlain(value) {
+  return JSON.parse(JSON.stringify(value));
+}
+
+module.exports = { loadPlugin, toPlain };
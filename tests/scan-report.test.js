@@ -0,0 +1,50 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadPlugin } = require('./load-plugin');
+
+const { ScanReportBuilder } = loadPlugin();
+
+function createReport(row) {
+  return {
+    fileName: 'file',
+    generatedAt: '2026-01-01T00:00:00.000Z',
+    totalTexts: 1,
+    summary: [{ issueType: 'edge-breaking', count: 1 }],
+    rows: [{
+      nodeId: '1:2',
+      page: 'Page',
+      framePath: 'Frame',
+      layerName: 'text',
+      issueTypes: ['edge-breaking'],
+      confidence: 0.5,
+      reasons: [],
+      lineCount: 2,
+      lineWidthRatios: [],
+      lineAvailableWidths: [],
+      originalText: 'a\nb',
+      proposedText: 'a b',
+      status: 'ok',
+      ...row
+    }]
+  };
+}
+
+function dataRow(csv) {
+  return csv.split('\r\n')[1];
+}
+
+test('toCsv prefixes cells that would run as spreadsheet formulas', () => {
+  const csv = ScanReportBuilder.toCsv(createReport({
+    layerName: '=HYPERLINK("x")',
+    page: '+1',
+    framePath: '-2',
+    proposedText: '@SUM(A1)'
+  }));
+
+  assert.equal(dataRow(csv), `1:2,'+1,'-2,"'=HYPERLINK(""x"")",edge-breaking,0.50,,2,,,"a\nb",'@SUM(A1),ok`);
+});
+
+test('toCsv leaves ordinary cells unchanged', () => {
+  const csv = ScanReportBuilder.toCsv(createReport({ layerName: 'a-b', page: 'x=1' }));
+  assert.equal(dataRow(csv), '1:2,x=1,Frame,a-b,edge-breaking,0.50,,2,,,"a\nb",a b,ok');
+});
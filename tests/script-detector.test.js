@@ -0,0 +1,49 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadPlugin } = require('./load-plugin');
+
+const { ScriptDetector } = loadPlugin();
+
+test('getJoinSeparator spaces words of spaced scripts', () => {
+  assert.equal(ScriptDetector.getJoinSeparator('Hello', 'world', false), ' ');
+  assert.equal(ScriptDetector.getJoinSeparator('Привет', 'мир', false), ' ');
+  assert.equal(ScriptDetector.getJoinSeparator('안녕하세요', '세계', false), ' ');
+  assert.equal(ScriptDetector.getJoinSeparator('Hello,', 'world', false), ' ');
+});
+
+test('getJoinSeparator spaces RTL and Indic scripts', () => {
+  assert.equal(ScriptDetector.getJoinSeparator('שלום', 'עולם', false), ' ');
+  assert.equal(ScriptDetector.getJoinSeparator('مرحبا', 'بالعالم', false), ' ');
+  assert.equal(ScriptDetector.getJoinSeparator('नमस्ते', 'दुनिया', false), ' ');
+});
+
+test('getJoinSeparator joins Japanese and Chinese without a space', () => {
+  assert.equal(ScriptDetector.getJoinSeparator('今日は', 'いい天気', false), '');
+  assert.equal(ScriptDetector.getJoinSeparator('你好', '世界', false), '');
+});
+
+test('getJoinSeparator follows the CJK-Latin spacing used in the text', () => {
+  assert.equal(ScriptDetector.getJoinSeparator('これは', 'Figma', true), ' ');
+  assert.equal(ScriptDetector.getJoinSeparator('これは', 'Figma', false), '');
+  assert.equal(ScriptDetector.getJoinSeparator('です。', 'Figma', true), '');
+});
+
+test('getJoinSeparator adds nothing after a line-end hyphen or slash', () => {
+  assert.equal(ScriptDetector.getJoinSeparator('infor-', 'mation', false), '');
+  assert.equal(ScriptDetector.getJoinSeparator('and/', 'or', false), '');
+  assert.equal(ScriptDetector.getJoinSeparator('Figma-', 'Based', false), '');
+  assert.equal(ScriptDetector.getJoinSeparator('Hello -', 'world', false), ' ');
+});
+
+test('getJoinSeparator spaces an opening bracket or quote after a Latin word or digit', () => {
+  assert.equal(ScriptDetector.getJoinSeparator('see', '(Figure 1)', false), ' ');
+  assert.equal(ScriptDetector.getJoinSeparator('Chapter 2', '[draft]', false), ' ');
+  assert.equal(ScriptDetector.getJoinSeparator('called', '\u201CBreaks\u201D', false), ' ');
+  assert.equal(ScriptDetector.getJoinSeparator('said', '"hello"', false), ' ');
+  assert.equal(ScriptDetector.getJoinSeparator('これは', '(注)', false), '');
+});
+
+test('usesCjkLatinSpacing detects the existing spacing style', () => {
+  assert.equal(ScriptDetector.usesCjkLatinSpacing('これは Figma の プラグイン'), true);
+  assert.equal(ScriptDetector.usesCjkLatinSpacing('これはFigmaのプラグイン'), false);
+});
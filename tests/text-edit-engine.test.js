@@ -0,0 +1,83 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadPlugin, toPlain } = require('./load-plugin');
+
+const { TextEditEngine } = loadPlugin();
+
+// insertCharacters / deleteCharacters のみを持つ TextNode の代わり
+function createTextNode(characters) {
+  return {
+    characters,
+    insertCharacters(start, text) {
+      this.characters = this.characters.slice(0, start) + text + this.characters.slice(start);
+    },
+    deleteCharacters(start, end) {
+      this.characters = this.characters.slice(0, start) + this.characters.slice(end);
+    }
+  };
+}
+
+test('computeEditSpans returns no spans for identical text', () => {
+  assert.deepEqual(toPlain(new TextEditEngine().computeEditSpans('同じテキスト', '同じテキスト')), []);
+});
+
+test('computeEditSpans replaces a line break with a space as one span', () => {
+  const spans = new TextEditEngine().computeEditSpans('Hello\nworld', 'Hello world');
+  assert.deepEqual(toPlain(spans), [{ start: 5, deleteCount: 1, insertText: ' ' }]);
+});
+
+test('computeEditSpans keeps separate edits as separate spans', () => {
+  const spans = new TextEditEngine().computeEditSpans('今日は\nいい天気\nです', '今日はいい天気です');
+  assert.deepEqual(toPlain(spans), [
+    { start: 3, deleteCount: 1, insertText: '' },
+    { start: 8, deleteCount: 1, insertText: '' }
+  ]);
+});
+
+test('applyEditSpans produces the new text on the node', () => {
+  const engine = new TextEditEngine();
+  const cases = [
+    ['今日は\nいい天気\nです', '今日はいい天気です'],
+    ['Hello\nworld\nagain', 'Hello world again'],
+    ['A B C', 'A\nB\nC'],
+    ['infor-\nmation', 'information']
+  ];
+
+  for (const [original, updated] of cases) {
+    const node = createTextNode(original);
+    engine.applyEditSpans(node, engine.computeEditSpans(original, updated));
+    assert.equal(node.characters, updated);
+  }
+});
+
+test('buildPreview classifies removed breaks, inserted spaces and converted soft breaks', () => {
+  const engine = new TextEditEngine();
+
+  assert.deepEqual(
+    toPlain(engine.buildPreview('日本\n語', '日本語')).map(segment => segment.kind),
+    ['equal', 'removed-break', 'equal']
+  );
+  assert.deepEqual(
+    toPlain(engine.buildPreview('Hello\nworld', 'Hello world')).map(segment => segment.kind),
+    ['equal', 'joined-space', 'equal']
+  );
+  assert.deepEqual(
+    toPlain(engine.buildPreview('A B', 'A\nB')).map(segment => segment.kind),
+    ['equal', 'converted-soft-break', 'equal']
+  );
+});
+
+test('buildPreview reports the joined word for hyphenation edits', () => {
+  const engine = new TextEditEngine();
+
+  const dehyphenated = toPlain(engine.buildPreview('the infor-\nmation age', 'the information age'));
+  assert.deepEqual(dehyphenated.find(segment => segment.kind === 'dehyphenated'), {
+    kind: 'dehyphenated',
+    before: '-\n',
+    after: '',
+    detail: 'information'
+  });
+
+  const kept = toPlain(engine.buildPreview('a well-\nknown tool', 'a well-known tool'));
+  assert.equal(kept.find(segment => segment.kind === 'kept-hyphen').detail, 'well-known');
+});
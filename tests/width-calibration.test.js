@@ -0,0 +1,94 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadPlugin } = require('./load-plugin');
+
+// ファイルにないフォントとして、行幅は文字幅の推定で計測させる
+const plugin = loadPlugin({
+  loadFontAsync: async () => {
+    throw new Error('font is missing');
+  }
+});
+const { SharedUtilities, TextAnalyzer, FontManager, ComponentContextResolver, WidthCalibrator, DEFAULT_CONFIG } = plugin;
+
+const fontName = { family: 'Inter', style: 'Regular' };
+const style = { fontName, fontSize: 10, letterSpacing: { unit: 'PIXELS', value: 0 } };
+const firstLine = 'alpha beta gamma';
+const text = `${firstLine}\nnext`;
+
+function createUtils(config) {
+  return new SharedUtilities(config, new FontManager(new ComponentContextResolver()));
+}
+
+function createMissingFontNode(width) {
+  return {
+    id: '1:1',
+    type: 'TEXT',
+    name: 'text',
+    parent: null,
+    characters: text,
+    width,
+    textAutoResize: 'HEIGHT',
+    paragraphSpacing: 0,
+    hasMissingFont: true,
+    locked: false,
+    visible: true,
+    getPluginData: () => '',
+    getStyledTextSegments: () => [{
+      start: 0,
+      end: text.length,
+      ...style,
+      paragraphIndent: 0,
+      indentation: 0,
+      listOptions: { type: 'NONE' }
+    }]
+  };
+}
+
+test('fitFactor fits the ratio of actual to estimated widths', () => {
+  assert.equal(WidthCalibrator.fitFactor([{ actual: 110, estimated: 100 }, { actual: 55, estimated: 50 }]), 1.1);
+  assert.equal(WidthCalibrator.fitFactor([]), 1);
+});
+
+test('a font calibration scales the estimated width of that font only', async () => {
+  const base = await createUtils(DEFAULT_CONFIG).measureTextWidth(firstLine, style);
+  const calibrated = createUtils({
+    ...DEFAULT_CONFIG,
+    fontCalibrations: [{ family: 'Inter', style: 'Regular', factor: 1.1, sampleCount: 5 }]
+  });
+
+  assert.ok(Math.abs(await calibrated.measureTextWidth(firstLine, style) - base * 1.1) < 1e-9);
+
+  const otherStyle = { ...style, fontName: { family: 'Roboto', style: 'Regular' } };
+  const otherBase = await createUtils(DEFAULT_CONFIG).measureTextWidth(firstLine, otherStyle);
+  assert.equal(await calibrated.measureTextWidth(firstLine, otherStyle), otherBase);
+});
+
+test('text with a missing font is analyzed with the calibrated estimate', async () => {
+  const base = await createUtils(DEFAULT_CONFIG).measureTextWidth(firstLine, style);
+  // 補正なしでは行幅の比率が0.9で閾値未満、1.1倍の補正で0.99になり閾値を超える
+  const node = createMissingFontNode(base / 0.9);
+
+  const uncalibrated = await new TextAnalyzer(DEFAULT_CONFIG, createUtils(DEFAULT_CONFIG)).analyzeTextNode(node);
+  assert.equal(uncalibrated.missingFont, true);
+  assert.equal(uncalibrated.issues.some(issue => issue.type === 'edge-breaking'), false);
+
+  const config = {
+    ...DEFAULT_CONFIG,
+    fontCalibrations: [{ family: 'Inter', style: 'Regular', factor: 1.1, sampleCount: 5 }]
+  };
+  const calibrated = await new TextAnalyzer(config, createUtils(config)).analyzeTextNode(node);
+  const edgeBreaking = calibrated.issues.find(issue => issue.type === 'edge-breaking');
+  assert.ok(edgeBreaking);
+  assert.deepEqual(Array.from(edgeBreaking.breakPositions), [firstLine.length]);
+});
+
+test('an imported font metric profile drives the estimate for a missing font', async () => {
+  const acme = { ...style, fontName: { family: 'Acme Sans', style: 'Regular' } };
+  const classes = width => ({ 'full-width': 1.0, digit: width, upper: width, lower: width, space: width, punctuation: width, other: width });
+  const narrow = createUtils({ ...DEFAULT_CONFIG, fontMetricProfiles: [{ family: 'Acme Sans', classes: classes(0.4) }] });
+  const wide = createUtils({ ...DEFAULT_CONFIG, fontMetricProfiles: [{ family: 'Acme Sans', classes: classes(0.8) }] });
+
+  const narrowWidth = await narrow.measureTextWidth(firstLine, acme);
+  assert.ok(narrowWidth > 0);
+  assert.ok(Math.abs(await wide.measureTextWidth(firstLine, acme) - narrowWidth * 2) < 1e-9);
+});